@@ -0,0 +1,504 @@
+import { round, toNumber } from './values.js';
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface Candle {
+  start: number;
+  end: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  points: number;
+}
+
+export interface SeriesSummary {
+  points: number;
+  start: number | null;
+  end: number | null;
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number | null;
+  changePct: number | null;
+  maxDrawdownPct: number | null;
+  realizedVolatility: number | null;
+  annualizedVolatility: number | null;
+}
+
+export const CANDLE_BUCKETS = {
+  '1m': 60,
+  '5m': 300,
+  '15m': 900,
+  '1h': 3_600,
+  '4h': 14_400,
+  '1d': 86_400,
+  '1w': 604_800,
+} as const;
+
+export type CandleBucket = keyof typeof CANDLE_BUCKETS;
+
+const SECONDS_PER_YEAR = 365 * 86_400;
+
+/**
+ * Normalizes `clob price-history` output (`[{ timestamp, price }]`, prices as
+ * decimal strings) into numeric points sorted by time. Malformed rows are dropped.
+ */
+export function parsePriceHistory(value: unknown): PricePoint[] {
+  const rows = Array.isArray(value)
+    ? value
+    : Array.isArray((value as Record<string, unknown> | null)?.history)
+      ? (value as { history: unknown[] }).history
+      : [];
+
+  const points: PricePoint[] = [];
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const record = row as Record<string, unknown>;
+    const timestamp = toNumber(record.timestamp ?? record.t);
+    const price = toNumber(record.price ?? record.p);
+    if (timestamp === null || price === null) continue;
+    points.push({ timestamp, price });
+  }
+
+  return points.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function aggregateCandles(points: PricePoint[], bucket: CandleBucket): Candle[] {
+  const width = CANDLE_BUCKETS[bucket];
+  const candles: Candle[] = [];
+  let current: Candle | null = null;
+
+  for (const point of points) {
+    const start = Math.floor(point.timestamp / width) * width;
+    if (!current || current.start !== start) {
+      current = {
+        start,
+        end: start + width,
+        open: point.price,
+        high: point.price,
+        low: point.price,
+        close: point.price,
+        points: 0,
+      };
+      candles.push(current);
+    }
+
+    current.high = Math.max(current.high, point.price);
+    current.low = Math.min(current.low, point.price);
+    current.close = point.price;
+    current.points += 1;
+  }
+
+  return candles;
+}
+
+export function summarizeSeries(points: PricePoint[]): SeriesSummary {
+  if (points.length === 0) {
+    return {
+      points: 0,
+      start: null,
+      end: null,
+      open: null,
+      high: null,
+      low: null,
+      close: null,
+      changePct: null,
+      maxDrawdownPct: null,
+      realizedVolatility: null,
+      annualizedVolatility: null,
+    };
+  }
+
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+
+  let high = first.price;
+  let low = first.price;
+  let peak = first.price;
+  let maxDrawdown = 0;
+  const logReturns: number[] = [];
+
+  for (let i = 0; i < points.length; i++) {
+    const price = points[i]!.price;
+    high = Math.max(high, price);
+    low = Math.min(low, price);
+
+    peak = Math.max(peak, price);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, (peak - price) / peak);
+    }
+
+    if (i > 0) {
+      const previous = points[i - 1]!.price;
+      if (previous > 0 && price > 0) {
+        logReturns.push(Math.log(price / previous));
+      }
+    }
+  }
+
+  let realizedVolatility: number | null = null;
+  let annualizedVolatility: number | null = null;
+  if (logReturns.length >= 2) {
+    const mean = logReturns.reduce((sum, value) => sum + value, 0) / logReturns.length;
+    const variance = logReturns.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (logReturns.length - 1);
+    realizedVolatility = Math.sqrt(variance);
+
+    // Annualize using the average sampling step, since fidelity varies by interval.
+    const stepSeconds = (last.timestamp - first.timestamp) / (points.length - 1);
+    if (stepSeconds > 0) {
+      annualizedVolatility = realizedVolatility * Math.sqrt(SECONDS_PER_YEAR / stepSeconds);
+    }
+  }
+
+  return {
+    points: points.length,
+    start: first.timestamp,
+    end: last.timestamp,
+    open: first.price,
+    high,
+    low,
+    close: last.price,
+    changePct: first.price > 0 ? round(((last.price - first.price) / first.price) * 100, 4) : null,
+    maxDrawdownPct: round(maxDrawdown * 100, 4),
+    realizedVolatility: realizedVolatility === null ? null : round(realizedVolatility),
+    annualizedVolatility: annualizedVolatility === null ? null : round(annualizedVolatility),
+  };
+}
+
+export interface CommentAuthor {
+  address: string | null;
+  name: string | null;
+  comments: number;
+}
+
+export interface TopComment {
+  id: string | null;
+  author: string | null;
+  body: string;
+  reactions: number;
+  createdAt: string | null;
+}
+
+export interface CommentsSummary {
+  count: number;
+  totalReactions: number;
+  topLiked: TopComment[];
+  authors: CommentAuthor[];
+}
+
+const COMMENT_BODY_PREVIEW = 280;
+
+function pick(record: Record<string, unknown>, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (record[key] !== undefined && record[key] !== null) return record[key];
+  }
+  return undefined;
+}
+
+function optionalText(value: unknown): string | null {
+  if (typeof value === 'string' && value.trim().length > 0) return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+/**
+ * Condenses a `comments list`/`comments by-user` payload into counts, the most
+ * reacted-to comments and the distinct authors, so sentiment research does not
+ * need the raw thread. Accepts both camelCase and snake_case field names.
+ */
+export function summarizeComments(value: unknown, top = 5): CommentsSummary {
+  const rows = Array.isArray(value) ? value : [];
+  const comments: TopComment[] = [];
+  const authors = new Map<string, CommentAuthor>();
+
+  for (const row of rows) {
+    if (!row || typeof row !== 'object') continue;
+    const record = row as Record<string, unknown>;
+    const profile = pick(record, 'profile');
+    const profileRecord = profile && typeof profile === 'object' ? profile as Record<string, unknown> : {};
+
+    const address = optionalText(pick(record, 'userAddress', 'user_address'));
+    const name = optionalText(pick(profileRecord, 'name', 'pseudonym'));
+    const body = optionalText(pick(record, 'body')) ?? '';
+
+    comments.push({
+      id: optionalText(pick(record, 'id')),
+      author: name ?? address,
+      body: body.length > COMMENT_BODY_PREVIEW ? `${body.slice(0, COMMENT_BODY_PREVIEW)}…` : body,
+      reactions: toNumber(pick(record, 'reactionCount', 'reaction_count')) ?? 0,
+      createdAt: optionalText(pick(record, 'createdAt', 'created_at')),
+    });
+
+    const authorKey = (address ?? name ?? '').toLowerCase();
+    if (!authorKey) continue;
+    const existing = authors.get(authorKey);
+    if (existing) {
+      existing.comments += 1;
+      existing.name = existing.name ?? name;
+    } else {
+      authors.set(authorKey, { address, name, comments: 1 });
+    }
+  }
+
+  const topLiked = [...comments]
+    .sort((a, b) => b.reactions - a.reactions)
+    .slice(0, top);
+
+  return {
+    count: comments.length,
+    totalReactions: comments.reduce((sum, comment) => sum + comment.reactions, 0),
+    topLiked,
+    authors: [...authors.values()].sort((a, b) => b.comments - a.comments),
+  };
+}
+
+export interface RewardOrderStatus {
+  id: string;
+  market: string | null;
+  assetId: string | null;
+  side: string | null;
+  price: number | null;
+  remainingSize: number | null;
+  scoring: boolean | null;
+  rewardProgram: {
+    maxSpread: number | null;
+    minSize: number | null;
+    ratePerDay: number | null;
+  } | null;
+  meetsMinSize: boolean | null;
+}
+
+export interface RewardsSummary {
+  totals: {
+    openOrders: number;
+    scoringOrders: number;
+    ordersInRewardMarkets: number;
+  };
+  markets: Array<{
+    conditionId: string;
+    openOrders: number;
+    scoringOrders: number;
+    ratePerDay: number | null;
+  }>;
+  orders: RewardOrderStatus[];
+}
+
+/** Unwraps paginated CLI payloads (`{ data, next_cursor }`) as well as bare arrays. */
+export function pageRows(value: unknown): Record<string, unknown>[] {
+  const rows = Array.isArray(value)
+    ? value
+    : Array.isArray((value as Record<string, unknown> | null)?.data)
+      ? (value as { data: unknown[] }).data
+      : [];
+  return rows.filter((row): row is Record<string, unknown> => Boolean(row) && typeof row === 'object' && !Array.isArray(row));
+}
+
+/**
+ * Joins open orders with current reward programs (keyed by condition id) and
+ * the `orders-scoring` map so market makers can see which quotes earn rewards.
+ */
+export function summarizeRewards(
+  orders: Record<string, unknown>[],
+  rewards: Record<string, unknown>[],
+  scoring: Record<string, unknown>,
+): RewardsSummary {
+  const programs = new Map<string, Record<string, unknown>>();
+  for (const program of rewards) {
+    const conditionId = optionalText(pick(program, 'condition_id', 'conditionId'));
+    if (conditionId) programs.set(conditionId.toLowerCase(), program);
+  }
+
+  const statuses: RewardOrderStatus[] = [];
+  const markets = new Map<string, RewardsSummary['markets'][number]>();
+
+  for (const order of orders) {
+    const id = optionalText(pick(order, 'id', 'order_id'));
+    if (!id) continue;
+
+    const market = optionalText(pick(order, 'market', 'condition_id'));
+    const originalSize = toNumber(pick(order, 'original_size'));
+    const matched = toNumber(pick(order, 'size_matched')) ?? 0;
+    const remainingSize = originalSize === null ? null : round(originalSize - matched);
+    const program = market ? programs.get(market.toLowerCase()) : undefined;
+    const scoringValue = scoring[id];
+
+    let rewardProgram: RewardOrderStatus['rewardProgram'] = null;
+    if (program) {
+      const configs = Array.isArray(program.rewards_config) ? program.rewards_config as Record<string, unknown>[] : [];
+      const ratePerDay = configs.reduce<number | null>((sum, config) => {
+        const rate = toNumber(pick(config ?? {}, 'rate_per_day'));
+        return rate === null ? sum : (sum ?? 0) + rate;
+      }, null);
+      rewardProgram = {
+        maxSpread: toNumber(pick(program, 'rewards_max_spread')),
+        minSize: toNumber(pick(program, 'rewards_min_size')),
+        ratePerDay,
+      };
+    }
+
+    const minSize = rewardProgram?.minSize ?? null;
+    const status: RewardOrderStatus = {
+      id,
+      market,
+      assetId: optionalText(pick(order, 'asset_id')),
+      side: optionalText(pick(order, 'side')),
+      price: toNumber(pick(order, 'price')),
+      remainingSize,
+      scoring: typeof scoringValue === 'boolean' ? scoringValue : null,
+      rewardProgram,
+      meetsMinSize: minSize === null || remainingSize === null ? null : remainingSize >= minSize,
+    };
+    statuses.push(status);
+
+    if (market) {
+      const entry = markets.get(market) ?? {
+        conditionId: market,
+        openOrders: 0,
+        scoringOrders: 0,
+        ratePerDay: rewardProgram?.ratePerDay ?? null,
+      };
+      entry.openOrders += 1;
+      if (status.scoring === true) entry.scoringOrders += 1;
+      markets.set(market, entry);
+    }
+  }
+
+  return {
+    totals: {
+      openOrders: statuses.length,
+      scoringOrders: statuses.filter((status) => status.scoring === true).length,
+      ordersInRewardMarkets: statuses.filter((status) => status.rewardProgram !== null).length,
+    },
+    markets: [...markets.values()],
+    orders: statuses,
+  };
+}
+
+export interface BookLevel {
+  price: number;
+  size: number;
+}
+
+export interface OrderBook {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  bestBid: number | null;
+  bestAsk: number | null;
+  midpoint: number | null;
+}
+
+/** Walk until this many USD are spent (buy) or received (sell), or until this many shares trade. */
+export type FillTarget = { amountUsd: number } | { size: number };
+
+export interface BookQuote {
+  side: 'buy' | 'sell';
+  target: FillTarget;
+  midpoint: number | null;
+  bestPrice: number | null;
+  vwap: number | null;
+  worstPrice: number | null;
+  slippage: number | null;
+  slippagePct: number | null;
+  filledSize: number;
+  filledUsd: number;
+  levelsConsumed: number;
+  fullyFilled: boolean;
+  unfilledSize: number | null;
+  unfilledUsd: number | null;
+  fills: BookLevel[];
+  depth: { levels: number; size: number; usd: number };
+}
+
+function parseLevels(value: unknown): BookLevel[] {
+  if (!Array.isArray(value)) return [];
+  const levels: BookLevel[] = [];
+  for (const row of value) {
+    if (!row || typeof row !== 'object') continue;
+    const record = row as Record<string, unknown>;
+    const price = toNumber(record.price);
+    const size = toNumber(record.size);
+    if (price === null || size === null || price <= 0 || size <= 0) continue;
+    levels.push({ price, size });
+  }
+  return levels;
+}
+
+/**
+ * Normalizes `clob book` output. The API does not promise an order, so bids are
+ * sorted best (highest) first and asks best (lowest) first.
+ */
+export function parseBook(value: unknown): OrderBook {
+  const record = value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  const bids = parseLevels(record.bids).sort((a, b) => b.price - a.price);
+  const asks = parseLevels(record.asks).sort((a, b) => a.price - b.price);
+  const bestBid = bids[0]?.price ?? null;
+  const bestAsk = asks[0]?.price ?? null;
+
+  return {
+    bids,
+    asks,
+    bestBid,
+    bestAsk,
+    midpoint: bestBid !== null && bestAsk !== null ? round((bestBid + bestAsk) / 2) : null,
+  };
+}
+
+/**
+ * Walks the opposite side of the book level by level, as a market order would
+ * fill; with `limitPrice`, only levels at or better than the limit are taken.
+ * Slippage is the VWAP's distance from the midpoint in the direction that costs
+ * the trader, so a positive value is always worse than mid.
+ */
+export function walkBook(book: OrderBook, side: 'buy' | 'sell', target: FillTarget, limitPrice?: number): BookQuote {
+  const opposite = side === 'buy' ? book.asks : book.bids;
+  const levels = limitPrice === undefined
+    ? opposite
+    : opposite.filter((level) => (side === 'buy' ? level.price <= limitPrice : level.price >= limitPrice));
+  const byUsd = 'amountUsd' in target;
+  let remaining = byUsd ? target.amountUsd : target.size;
+  let filledSize = 0;
+  let filledUsd = 0;
+  const fills: BookLevel[] = [];
+
+  for (const level of levels) {
+    if (remaining <= 1e-9) break;
+    const size = byUsd ? Math.min(level.size, remaining / level.price) : Math.min(level.size, remaining);
+    filledSize += size;
+    filledUsd += size * level.price;
+    remaining -= byUsd ? size * level.price : size;
+    fills.push({ price: level.price, size: round(size) });
+  }
+
+  remaining = Math.max(remaining, 0);
+  const vwap = filledSize > 0 ? round(filledUsd / filledSize) : null;
+  const midpoint = book.midpoint;
+  const slippage = vwap !== null && midpoint !== null ? round(side === 'buy' ? vwap - midpoint : midpoint - vwap) : null;
+  const fullyFilled = remaining <= 1e-9;
+
+  return {
+    side,
+    target,
+    midpoint,
+    bestPrice: opposite[0]?.price ?? null,
+    vwap,
+    worstPrice: fills.length > 0 ? fills[fills.length - 1]!.price : null,
+    slippage,
+    slippagePct: slippage !== null && midpoint !== null && midpoint > 0 ? round((slippage / midpoint) * 100, 4) : null,
+    filledSize: round(filledSize),
+    filledUsd: round(filledUsd),
+    levelsConsumed: fills.length,
+    fullyFilled,
+    unfilledSize: byUsd ? null : round(fullyFilled ? 0 : remaining),
+    unfilledUsd: byUsd ? round(fullyFilled ? 0 : remaining) : null,
+    fills,
+    depth: {
+      levels: levels.length,
+      size: round(levels.reduce((sum, level) => sum + level.size, 0)),
+      usd: round(levels.reduce((sum, level) => sum + level.size * level.price, 0)),
+    },
+  };
+}
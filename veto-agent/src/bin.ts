@@ -121,8 +121,11 @@ async function main(): Promise<void> {
   const runtime = await PolymarketVetoRuntime.create(resolved);
 
   if (command === 'print-tools') {
+    const startup = runtime.getStartupInfo();
     console.log(JSON.stringify({
       tools: runtime.listMcpTools(),
+      customToolsPath: startup.customToolsPath,
+      customTools: startup.customTools,
     }, null, 2));
     return;
   }
@@ -147,6 +150,8 @@ async function main(): Promise<void> {
     process.stderr.write("Polymarket binary unavailable. Run 'polymarket-veto-mcp doctor' for setup help.\n");
   }
 
+  runtime.startPaperPolling();
+
   if (resolved.config.mcp.transport === 'sse') {
     await serveSse(runtime, { simulationOverride });
     return;
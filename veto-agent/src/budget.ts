@@ -0,0 +1,203 @@
+import { randomUUID } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { ToolSpec } from './tools.js';
+import { round } from './values.js';
+
+/** Spend budgets over rolling day and week windows, persisted across restarts. */
+
+export const BUDGET_WINDOWS = { day: 86_400_000, week: 604_800_000 } as const;
+export type BudgetWindow = keyof typeof BUDGET_WINDOWS;
+export type BudgetScope = 'total' | 'market' | 'tool';
+
+export interface BudgetLimit {
+  window: BudgetWindow;
+  scope: BudgetScope;
+  maxUsd: number;
+  /** For `tool` scope: the one tool the limit applies to; without it every tool gets its own cap. */
+  tool?: string;
+}
+
+export interface SpendRequest {
+  tool: string;
+  market: string | null;
+  amountUsd: number;
+}
+
+export interface SpendEntry extends SpendRequest {
+  id: string;
+  timestamp: string;
+}
+
+export interface BudgetUsage {
+  window: BudgetWindow;
+  scope: BudgetScope;
+  /** Market or tool the figures are for; null for `total` limits. */
+  key: string | null;
+  maxUsd: number;
+  usedUsd: number;
+  remainingUsd: number;
+}
+
+export interface BudgetViolation extends BudgetUsage {
+  requestedUsd: number;
+}
+
+interface SpendState {
+  version: 1;
+  entries: SpendEntry[];
+}
+
+function keyOf(limit: BudgetLimit, spend: SpendRequest): string | null | undefined {
+  switch (limit.scope) {
+    case 'total':
+      return null;
+    case 'market':
+      return spend.market ?? undefined;
+    case 'tool':
+      return limit.tool === undefined || limit.tool === spend.tool ? spend.tool : undefined;
+  }
+}
+
+export function describeLimit(limit: BudgetLimit, key: string | null): string {
+  const scope = limit.scope === 'total' ? 'total' : `${limit.scope} '${key}'`;
+  return `${limit.window === 'day' ? 'daily' : 'weekly'} ${scope} budget of $${limit.maxUsd}`;
+}
+
+export class SpendLedger {
+  private state: SpendState;
+
+  constructor(readonly path: string, readonly limits: BudgetLimit[]) {
+    this.state = existsSync(path) ? SpendLedger.read(path) : { version: 1, entries: [] };
+  }
+
+  private static read(path: string): SpendState {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    } catch (error) {
+      throw new Error(`Invalid spend ledger '${path}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const state = parsed as Partial<SpendState> | null;
+    if (!state || state.version !== 1 || !Array.isArray(state.entries)) {
+      throw new Error(`Invalid spend ledger '${path}': unsupported format`);
+    }
+    return state as SpendState;
+  }
+
+  /** Writes through a temp file so a crash mid-write never loses recorded spend. */
+  private persist(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    writeFileSync(temp, `${JSON.stringify(this.state, null, 2)}\n`, 'utf-8');
+    renameSync(temp, this.path);
+  }
+
+  private used(limit: BudgetLimit, key: string | null, now: Date): number {
+    const since = now.getTime() - BUDGET_WINDOWS[limit.window];
+    return round(this.state.entries
+      .filter((entry) => Date.parse(entry.timestamp) > since && keyOf(limit, entry) === key)
+      .reduce((total, entry) => total + entry.amountUsd, 0));
+  }
+
+  /** Every limit the requests would push past, with the amount each one adds. */
+  check(requests: SpendRequest[], now = new Date()): BudgetViolation[] {
+    const violations: BudgetViolation[] = [];
+    for (const limit of this.limits) {
+      const requested = new Map<string | null, number>();
+      for (const spend of requests) {
+        const key = keyOf(limit, spend);
+        if (key !== undefined) requested.set(key, (requested.get(key) ?? 0) + spend.amountUsd);
+      }
+
+      for (const [key, amount] of requested) {
+        const usedUsd = this.used(limit, key, now);
+        if (usedUsd + amount > limit.maxUsd + 1e-9) {
+          violations.push({
+            window: limit.window,
+            scope: limit.scope,
+            key,
+            maxUsd: limit.maxUsd,
+            usedUsd,
+            remainingUsd: round(Math.max(limit.maxUsd - usedUsd, 0)),
+            requestedUsd: round(amount),
+          });
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Records the spend up front so concurrent calls cannot both fit under the
+   * same limit; callers release the ids if execution fails. Entries older than
+   * the longest window are dropped on the way.
+   */
+  reserve(requests: SpendRequest[], now = new Date()): string[] {
+    const since = now.getTime() - BUDGET_WINDOWS.week;
+    const entries = requests.map((spend) => ({ id: randomUUID(), timestamp: now.toISOString(), ...spend }));
+    this.state.entries = [...this.state.entries.filter((entry) => Date.parse(entry.timestamp) > since), ...entries];
+    this.persist();
+    return entries.map((entry) => entry.id);
+  }
+
+  release(ids: string[]): void {
+    const released = new Set(ids);
+    this.state.entries = this.state.entries.filter((entry) => !released.has(entry.id));
+    this.persist();
+  }
+
+  /** Used and remaining amounts per limit, one row per market or tool seen in the window. */
+  status(now = new Date()): BudgetUsage[] {
+    return this.limits.flatMap((limit) => {
+      const since = now.getTime() - BUDGET_WINDOWS[limit.window];
+      const keys = new Set<string | null>();
+      for (const entry of this.state.entries) {
+        const key = keyOf(limit, entry);
+        if (key !== undefined && Date.parse(entry.timestamp) > since) keys.add(key);
+      }
+      if (limit.scope === 'total') keys.add(null);
+      if (limit.scope === 'tool' && limit.tool !== undefined) keys.add(limit.tool);
+
+      return [...keys].map((key) => {
+        const usedUsd = this.used(limit, key, now);
+        return {
+          window: limit.window,
+          scope: limit.scope,
+          key,
+          maxUsd: limit.maxUsd,
+          usedUsd,
+          remainingUsd: round(Math.max(limit.maxUsd - usedUsd, 0)),
+        };
+      });
+    });
+  }
+}
+
+export function budgetTools(ledger: SpendLedger): ToolSpec[] {
+  return [
+    {
+      name: 'budget_status',
+      description: 'Show used and remaining live spend for each configured budget limit (rolling day and week windows).',
+      mutating: false,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      },
+      build(args) {
+        if (Object.keys(args).length > 0) {
+          throw new Error(`Unexpected argument '${Object.keys(args)[0]}'`);
+        }
+        return {
+          argv: [],
+          guardArgs: {},
+          async compose() {
+            return { ledgerPath: ledger.path, limits: ledger.status() };
+          },
+        };
+      },
+    },
+  ];
+}
@@ -1,7 +1,17 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { dirname, resolve } from 'node:path';
 import { parse as parseYaml } from 'yaml';
-import { POLICY_PROFILES, type McpTransport, type PolicyProfile, type ResolvedConfig, type SidecarConfig } from './types.js';
+import { BUDGET_WINDOWS, type BudgetLimit } from './budget.js';
+import type { RateLimitConfig } from './ratelimit.js';
+import {
+  POLICY_PROFILES,
+  type ContextSourceConfig,
+  type McpTransport,
+  type PolicyProfile,
+  type ResolvedConfig,
+  type SidecarConfig,
+} from './types.js';
+import { asRecord } from './values.js';
 
 const DEFAULT_CONFIG_PATHS = [
   'veto-agent/polymarket-veto.config.yaml',
@@ -24,6 +34,56 @@ const DEFAULTS: SidecarConfig = {
     port: 9800,
     path: '/mcp',
   },
+  preflight: {
+    enabled: true,
+    snapToTick: false,
+  },
+  context: {
+    book: { enabled: true, timeoutMs: 3_000, onFailure: 'continue' },
+    market: { enabled: true, timeoutMs: 3_000, onFailure: 'continue' },
+    gamma: { enabled: true, timeoutMs: 3_000, onFailure: 'continue' },
+  },
+  exposure: {
+    enabled: true,
+    address: 'auto',
+    timeoutMs: 5_000,
+    onFailure: 'continue',
+  },
+  budgets: {
+    enabled: true,
+    path: 'polymarket-veto.spend.json',
+    limits: [
+      { window: 'day', scope: 'total', maxUsd: 100 },
+      { window: 'week', scope: 'total', maxUsd: 500 },
+      { window: 'day', scope: 'market', maxUsd: 50 },
+    ],
+  },
+  rateLimits: {
+    enabled: true,
+    ordersPerMinute: 30,
+    classes: {
+      mutating: { perMinute: 60, burst: 20 },
+      read: { perMinute: 300, burst: 60 },
+    },
+    profiles: {},
+    tools: {},
+  },
+  idempotency: {
+    enabled: true,
+    path: 'polymarket-veto.idempotency.json',
+    windowSeconds: 60,
+    keyTtlSeconds: 86_400,
+  },
+  paper: {
+    enabled: true,
+    path: 'polymarket-veto.paper.json',
+    startingCashUsd: 1_000,
+    gtdTtlSeconds: 86_400,
+    pollIntervalMs: 15_000,
+  },
+  customTools: {
+    path: 'polymarket-veto.tools.yaml',
+  },
   veto: {
     configDir: '../veto',
     policyProfile: 'defaults',
@@ -33,13 +93,6 @@ const DEFAULTS: SidecarConfig = {
   },
 };
 
-function asRecord(value: unknown): Record<string, unknown> {
-  if (!value || typeof value !== 'object' || Array.isArray(value)) {
-    return {};
-  }
-  return value as Record<string, unknown>;
-}
-
 function optionalString(value: unknown): string | undefined {
   if (typeof value !== 'string') return undefined;
   const trimmed = value.trim();
@@ -57,6 +110,13 @@ function optionalPositiveInt(value: unknown): number | undefined {
   return Math.floor(parsed);
 }
 
+function optionalPositiveNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const parsed = typeof value === 'number' ? value : Number(String(value));
+  if (!Number.isFinite(parsed) || parsed <= 0) return undefined;
+  return parsed;
+}
+
 function parseTransport(value: unknown, fallback: McpTransport): McpTransport {
   if (value === 'stdio' || value === 'sse') return value;
   return fallback;
@@ -69,12 +129,86 @@ function parsePolicyProfile(value: unknown, fallback: PolicyProfile): PolicyProf
   return fallback;
 }
 
+function parseContextSource(value: unknown, base: ContextSourceConfig): ContextSourceConfig {
+  const source = asRecord(value);
+  return {
+    enabled: optionalBoolean(source.enabled) ?? base.enabled,
+    timeoutMs: optionalPositiveInt(source.timeoutMs) ?? base.timeoutMs,
+    onFailure: source.onFailure === 'continue' || source.onFailure === 'reject' ? source.onFailure : base.onFailure,
+  };
+}
+
+/**
+ * Budget limits are safety settings, so a malformed entry fails config loading
+ * instead of being dropped.
+ */
+function parseBudgetLimits(value: unknown, fallback: BudgetLimit[]): BudgetLimit[] {
+  if (value === undefined || value === null) return fallback;
+  if (!Array.isArray(value)) throw new Error('Invalid budgets.limits: expected a list');
+
+  return value.map((item, index) => {
+    const entry = asRecord(item);
+    const label = `budgets.limits[${index}]`;
+    if (typeof entry.window !== 'string' || !Object.hasOwn(BUDGET_WINDOWS, entry.window)) {
+      throw new Error(`Invalid ${label}.window: expected ${Object.keys(BUDGET_WINDOWS).join('|')}`);
+    }
+    if (entry.scope !== 'total' && entry.scope !== 'market' && entry.scope !== 'tool') {
+      throw new Error(`Invalid ${label}.scope: expected total|market|tool`);
+    }
+    const maxUsd = optionalPositiveNumber(entry.maxUsd);
+    if (maxUsd === undefined) throw new Error(`Invalid ${label}.maxUsd: expected a positive number`);
+    const tool = optionalString(entry.tool);
+    if (tool !== undefined && entry.scope !== 'tool') throw new Error(`Invalid ${label}.tool: only allowed with scope tool`);
+
+    return {
+      window: entry.window as BudgetLimit['window'],
+      scope: entry.scope,
+      maxUsd,
+      ...(tool !== undefined ? { tool } : {}),
+    };
+  });
+}
+
+/** `burst` defaults to `perMinute`; like budgets, malformed limits fail config loading. */
+function parseRateLimit(value: unknown, label: string): RateLimitConfig {
+  const entry = asRecord(value);
+  const perMinute = optionalPositiveNumber(entry.perMinute);
+  if (perMinute === undefined) throw new Error(`Invalid ${label}.perMinute: expected a positive number`);
+  const burst = entry.burst === undefined ? Math.max(Math.floor(perMinute), 1) : optionalPositiveInt(entry.burst);
+  if (burst === undefined) throw new Error(`Invalid ${label}.burst: expected a positive integer`);
+  return { perMinute, burst };
+}
+
+function parseRateLimitMap<K extends string>(
+  value: unknown,
+  label: string,
+  fallback: Partial<Record<K, RateLimitConfig>>,
+  allowed?: readonly K[],
+): Partial<Record<K, RateLimitConfig>> {
+  if (value === undefined || value === null) return fallback;
+  const entries = Object.entries(asRecord(value));
+  for (const [key] of entries) {
+    if (allowed && !allowed.includes(key as K)) {
+      throw new Error(`Invalid ${label}.${key}: expected one of ${allowed.join('|')}`);
+    }
+  }
+  return Object.fromEntries(entries.map(([key, limit]) => [key, parseRateLimit(limit, `${label}.${key}`)])) as Partial<Record<K, RateLimitConfig>>;
+}
+
 function merge(raw: unknown, base: SidecarConfig): SidecarConfig {
   const root = asRecord(raw);
 
   const polymarket = asRecord(root.polymarket);
   const execution = asRecord(root.execution);
   const mcp = asRecord(root.mcp);
+  const preflight = asRecord(root.preflight);
+  const context = asRecord(root.context);
+  const exposure = asRecord(root.exposure);
+  const budgets = asRecord(root.budgets);
+  const rateLimits = asRecord(root.rateLimits);
+  const idempotency = asRecord(root.idempotency);
+  const paper = asRecord(root.paper);
+  const customTools = asRecord(root.customTools);
   const veto = asRecord(root.veto);
   const cloud = asRecord(veto.cloud);
 
@@ -94,6 +228,51 @@ function merge(raw: unknown, base: SidecarConfig): SidecarConfig {
       port: optionalPositiveInt(mcp.port) ?? base.mcp.port,
       path: optionalString(mcp.path) ?? base.mcp.path,
     },
+    preflight: {
+      enabled: optionalBoolean(preflight.enabled) ?? base.preflight.enabled,
+      snapToTick: optionalBoolean(preflight.snapToTick) ?? base.preflight.snapToTick,
+    },
+    context: {
+      book: parseContextSource(context.book, base.context.book),
+      market: parseContextSource(context.market, base.context.market),
+      gamma: parseContextSource(context.gamma, base.context.gamma),
+    },
+    exposure: {
+      enabled: optionalBoolean(exposure.enabled) ?? base.exposure.enabled,
+      address: optionalString(exposure.address) ?? base.exposure.address,
+      timeoutMs: optionalPositiveInt(exposure.timeoutMs) ?? base.exposure.timeoutMs,
+      onFailure: exposure.onFailure === 'continue' || exposure.onFailure === 'reject' ? exposure.onFailure : base.exposure.onFailure,
+    },
+    budgets: {
+      enabled: optionalBoolean(budgets.enabled) ?? base.budgets.enabled,
+      path: optionalString(budgets.path) ?? base.budgets.path,
+      limits: parseBudgetLimits(budgets.limits, base.budgets.limits),
+    },
+    rateLimits: {
+      enabled: optionalBoolean(rateLimits.enabled) ?? base.rateLimits.enabled,
+      ordersPerMinute: rateLimits.ordersPerMinute === null
+        ? null
+        : optionalPositiveInt(rateLimits.ordersPerMinute) ?? base.rateLimits.ordersPerMinute,
+      classes: parseRateLimitMap(rateLimits.classes, 'rateLimits.classes', base.rateLimits.classes, ['mutating', 'read']),
+      profiles: parseRateLimitMap(rateLimits.profiles, 'rateLimits.profiles', base.rateLimits.profiles, POLICY_PROFILES),
+      tools: parseRateLimitMap(rateLimits.tools, 'rateLimits.tools', base.rateLimits.tools) as Record<string, RateLimitConfig>,
+    },
+    idempotency: {
+      enabled: optionalBoolean(idempotency.enabled) ?? base.idempotency.enabled,
+      path: optionalString(idempotency.path) ?? base.idempotency.path,
+      windowSeconds: optionalPositiveInt(idempotency.windowSeconds) ?? base.idempotency.windowSeconds,
+      keyTtlSeconds: optionalPositiveInt(idempotency.keyTtlSeconds) ?? base.idempotency.keyTtlSeconds,
+    },
+    paper: {
+      enabled: optionalBoolean(paper.enabled) ?? base.paper.enabled,
+      path: optionalString(paper.path) ?? base.paper.path,
+      startingCashUsd: optionalPositiveNumber(paper.startingCashUsd) ?? base.paper.startingCashUsd,
+      gtdTtlSeconds: optionalPositiveInt(paper.gtdTtlSeconds) ?? base.paper.gtdTtlSeconds,
+      pollIntervalMs: optionalPositiveInt(paper.pollIntervalMs) ?? base.paper.pollIntervalMs,
+    },
+    customTools: {
+      path: optionalString(customTools.path) ?? base.customTools.path,
+    },
     veto: {
       configDir: optionalString(veto.configDir) ?? base.veto.configDir,
       policyProfile: parsePolicyProfile(veto.policyProfile, base.veto.policyProfile),
@@ -151,6 +330,26 @@ export function toJsonSafeConfig(config: SidecarConfig): SidecarConfig {
     polymarket: { ...config.polymarket },
     execution: { ...config.execution },
     mcp: { ...config.mcp },
+    preflight: { ...config.preflight },
+    context: {
+      book: { ...config.context.book },
+      market: { ...config.context.market },
+      gamma: { ...config.context.gamma },
+    },
+    exposure: { ...config.exposure },
+    budgets: {
+      ...config.budgets,
+      limits: config.budgets.limits.map((limit) => ({ ...limit })),
+    },
+    rateLimits: {
+      ...config.rateLimits,
+      classes: { ...config.rateLimits.classes },
+      profiles: { ...config.rateLimits.profiles },
+      tools: { ...config.rateLimits.tools },
+    },
+    idempotency: { ...config.idempotency },
+    paper: { ...config.paper },
+    customTools: { ...config.customTools },
     veto: {
       ...config.veto,
       cloud: { ...config.veto.cloud },
@@ -0,0 +1,55 @@
+/** Flattens book, CLOB market and gamma payloads into guard args; the runtime owns the lookups. */
+
+import type { OrderBook } from './analytics.js';
+import { asRecord, round, toNumber, toText } from './values.js';
+
+export const CONTEXT_SOURCES = ['book', 'market', 'gamma'] as const;
+export type ContextSource = (typeof CONTEXT_SOURCES)[number];
+
+/** Guard arg names each source fills; a failed source leaves its fields null. */
+export const CONTEXT_FIELDS: Record<ContextSource, readonly string[]> = {
+  book: ['midpoint', 'spread', 'best_bid', 'best_ask', 'best_bid_depth', 'best_ask_depth'],
+  market: ['question', 'market_slug', 'tags', 'end_date', 'hours_to_end'],
+  gamma: ['category', 'liquidity', 'volume'],
+};
+
+export function emptyContext(source: ContextSource): Record<string, null> {
+  return Object.fromEntries(CONTEXT_FIELDS[source].map((field) => [field, null]));
+}
+
+export function bookContext(book: OrderBook): Record<string, number | null> {
+  return {
+    midpoint: book.midpoint,
+    spread: book.bestBid !== null && book.bestAsk !== null ? round(book.bestAsk - book.bestBid) : null,
+    best_bid: book.bestBid,
+    best_ask: book.bestAsk,
+    best_bid_depth: book.bids[0]?.size ?? null,
+    best_ask_depth: book.asks[0]?.size ?? null,
+  };
+}
+
+/** Reads `clob market`; `hours_to_end` is negative once the end date has passed. */
+export function marketContext(market: unknown, now = new Date()): Record<string, unknown> {
+  const record = asRecord(market);
+  const endDate = toText(record.end_date_iso);
+  const end = endDate === null ? Number.NaN : Date.parse(endDate);
+  const tags = Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === 'string') : null;
+
+  return {
+    question: toText(record.question),
+    market_slug: toText(record.market_slug),
+    tags,
+    end_date: endDate,
+    hours_to_end: Number.isFinite(end) ? round((end - now.getTime()) / 3_600_000, 2) : null,
+  };
+}
+
+/** Reads gamma `markets get`, which reports liquidity and volume as numbers or numeric strings. */
+export function gammaContext(market: unknown): Record<string, unknown> {
+  const record = asRecord(market);
+  return {
+    category: toText(record.category),
+    liquidity: toNumber(record.liquidityNum) ?? toNumber(record.liquidity),
+    volume: toNumber(record.volumeNum) ?? toNumber(record.volume),
+  };
+}
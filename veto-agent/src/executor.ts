@@ -4,6 +4,10 @@ import type { ExecutionResult } from './types.js';
 interface ExecuteOptions {
   timeoutMs: number;
   maxOutputBytes: number;
+  /** Mask 32-byte hex values that could be private keys (default true). */
+  redact?: boolean;
+  /** Called once the process is running; not called when the binary cannot be started. */
+  onSpawn?: () => void;
 }
 
 function maybeJson(text: string): unknown {
@@ -35,6 +39,7 @@ export async function executePolymarket(
 ): Promise<ExecutionResult> {
   const normalizedArgv = ensureJsonMode(argv);
   const commandPreview = `${binaryPath} ${normalizedArgv.join(' ')}`;
+  const scrub = options.redact === false ? (text: string) => text : redact;
 
   return await new Promise<ExecutionResult>((resolve) => {
     const child = spawn(binaryPath, normalizedArgv, {
@@ -46,6 +51,8 @@ export async function executePolymarket(
     let stderr = '';
     let outputTooLarge = false;
 
+    if (options.onSpawn) child.once('spawn', options.onSpawn);
+
     const timer = setTimeout(() => {
       child.kill('SIGTERM');
     }, options.timeoutMs);
@@ -73,8 +80,8 @@ export async function executePolymarket(
       resolve({
         ok: false,
         exitCode: -1,
-        stdout: redact(stdout),
-        stderr: redact(`${stderr}\n${error.message}`.trim()),
+        stdout: scrub(stdout),
+        stderr: scrub(`${stderr}\n${error.message}`.trim()),
         parsed: null,
         argv: normalizedArgv,
         commandPreview,
@@ -97,8 +104,8 @@ export async function executePolymarket(
         return;
       }
 
-      const safeStdout = redact(stdout);
-      const safeStderr = redact(stderr);
+      const safeStdout = scrub(stdout);
+      const safeStderr = scrub(stderr);
       const parsed = maybeJson(safeStdout);
       const ok = (code ?? -1) === 0;
 
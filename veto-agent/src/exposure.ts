@@ -0,0 +1,139 @@
+/** Folds wallet value, positions and open orders into per-market and portfolio exposure. */
+
+import { pageRows } from './analytics.js';
+import { asRecord, round, toNumber, toText } from './values.js';
+
+export interface WalletPosition {
+  conditionId: string;
+  outcome: string | null;
+  size: number;
+  currentValueUsd: number;
+}
+
+export interface WalletOpenOrder {
+  market: string;
+  assetId: string;
+  side: 'buy' | 'sell';
+  price: number;
+  remainingSize: number;
+}
+
+export interface ExposureSnapshot {
+  address: string;
+  portfolioValueUsd: number;
+  positions: WalletPosition[];
+  openOrders: WalletOpenOrder[];
+}
+
+export interface ExposureTarget {
+  conditionId: string | null;
+  side: 'buy' | 'sell';
+  amountUsd: number;
+}
+
+/** Guard arg names set by `exposureFields`; all null when the wallet lookups fail. */
+export const EXPOSURE_FIELDS = [
+  'wallet_address',
+  'portfolio_value_usd',
+  'market_position_size',
+  'market_position_value_usd',
+  'open_orders_count',
+  'open_orders_notional_usd',
+  'market_open_orders_notional_usd',
+  'total_exposure_usd',
+  'market_exposure_usd',
+  'post_trade_exposure_usd',
+  'post_trade_market_exposure_usd',
+] as const;
+
+/** Fields that depend on the target market; batches carry these per leg. */
+export const MARKET_EXPOSURE_FIELDS = [
+  'market_position_size',
+  'market_position_value_usd',
+  'market_open_orders_notional_usd',
+  'market_exposure_usd',
+  'post_trade_market_exposure_usd',
+] as const;
+
+function sameId(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Picks the address the data API tracks from `wallet show`: the proxy wallet
+ * unless the wallet signs as a plain EOA.
+ */
+export function walletAddress(payload: unknown): string | null {
+  const record = asRecord(payload);
+  const proxy = toText(record.proxy_address);
+  if (record.signature_type !== 'eoa' && proxy !== null) return proxy;
+  return toText(record.address);
+}
+
+/** `data value` returns one `{ user, value }` row per address. */
+export function parsePortfolioValue(payload: unknown): number {
+  return round(pageRows(payload).reduce((total, row) => total + (toNumber(row.value) ?? 0), 0));
+}
+
+export function parsePositions(payload: unknown): WalletPosition[] {
+  return pageRows(payload).flatMap((row) => {
+    const conditionId = toText(row.condition_id);
+    if (conditionId === null) return [];
+    return [{
+      conditionId,
+      outcome: toText(row.outcome),
+      size: toNumber(row.size) ?? 0,
+      currentValueUsd: toNumber(row.current_value) ?? 0,
+    }];
+  });
+}
+
+export function parseOpenOrders(rows: Record<string, unknown>[]): WalletOpenOrder[] {
+  return rows.flatMap((row) => {
+    const side = String(row.side ?? '').toLowerCase();
+    const price = toNumber(row.price);
+    const original = toNumber(row.original_size);
+    if ((side !== 'buy' && side !== 'sell') || price === null || original === null) return [];
+    return [{
+      market: toText(row.market) ?? '',
+      assetId: toText(row.asset_id) ?? '',
+      side,
+      price,
+      remainingSize: Math.max(original - (toNumber(row.size_matched) ?? 0), 0),
+    }];
+  });
+}
+
+/**
+ * Exposure is position value plus the notional of resting buys. Open sells and
+ * the order's own sell side are not netted, so post-trade exposure never drops
+ * below the current figure.
+ */
+export function exposureFields(snapshot: ExposureSnapshot, target: ExposureTarget): Record<string, unknown> {
+  const inMarket = (id: string): boolean => target.conditionId !== null && sameId(id, target.conditionId);
+  const buyNotional = (orders: WalletOpenOrder[]): number => round(orders
+    .filter((order) => order.side === 'buy')
+    .reduce((total, order) => total + order.price * order.remainingSize, 0));
+
+  const marketPositions = snapshot.positions.filter((position) => inMarket(position.conditionId));
+  const marketPositionValue = round(marketPositions.reduce((total, position) => total + position.currentValueUsd, 0));
+  const openNotional = buyNotional(snapshot.openOrders);
+  const marketOpenNotional = buyNotional(snapshot.openOrders.filter((order) => inMarket(order.market)));
+  const totalExposure = round(snapshot.portfolioValueUsd + openNotional);
+  const marketExposure = round(marketPositionValue + marketOpenNotional);
+  const added = target.side === 'buy' ? target.amountUsd : 0;
+
+  return {
+    wallet_address: snapshot.address,
+    portfolio_value_usd: snapshot.portfolioValueUsd,
+    market_position_size: round(marketPositions.reduce((total, position) => total + position.size, 0)),
+    market_position_value_usd: marketPositionValue,
+    open_orders_count: snapshot.openOrders.length,
+    open_orders_notional_usd: openNotional,
+    market_open_orders_notional_usd: marketOpenNotional,
+    total_exposure_usd: totalExposure,
+    market_exposure_usd: marketExposure,
+    post_trade_exposure_usd: round(totalExposure + added),
+    post_trade_market_exposure_usd: round(marketExposure + added),
+  };
+}
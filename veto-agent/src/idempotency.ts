@@ -0,0 +1,177 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { McpToolResult } from './types.js';
+
+/** Deduplicates mutating tool calls retried by the host. */
+
+export const IDEMPOTENCY_KEY_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+export interface IdempotencyRecord {
+  key: string;
+  fingerprint: string;
+  tool: string;
+  status: 'pending' | 'completed';
+  startedAt: string;
+  expiresAt: string;
+  persist: boolean;
+  result?: McpToolResult;
+}
+
+export interface IdempotentCall {
+  key: string;
+  fingerprint: string;
+  tool: string;
+  ttlMs: number;
+  /** Live calls are persisted; simulations only live in memory. */
+  persist: boolean;
+}
+
+export class IdempotencyError extends Error {
+  constructor(
+    readonly reason: 'conflict' | 'unfinished',
+    message: string,
+    readonly record: IdempotencyRecord,
+  ) {
+    super(message);
+  }
+}
+
+interface IdempotencyState {
+  version: 1;
+  records: IdempotencyRecord[];
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Hash of the tool, its arguments (key order ignored) and whether it runs live. */
+export function callFingerprint(tool: string, args: Record<string, unknown>, live: boolean): string {
+  return createHash('sha256').update(canonicalJson({ tool, args, live })).digest('hex');
+}
+
+export class IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+  private readonly inFlight = new Map<string, Promise<McpToolResult>>();
+
+  constructor(readonly path: string) {
+    if (existsSync(path)) {
+      for (const record of IdempotencyStore.read(path).records) this.records.set(record.key, record);
+    }
+  }
+
+  private static read(path: string): IdempotencyState {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    } catch (error) {
+      throw new Error(`Invalid idempotency store '${path}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const state = parsed as Partial<IdempotencyState> | null;
+    if (!state || state.version !== 1 || !Array.isArray(state.records)) {
+      throw new Error(`Invalid idempotency store '${path}': unsupported format`);
+    }
+    return state as IdempotencyState;
+  }
+
+  /** Writes through a temp file so a crash mid-write never loses a pending live call. */
+  private persist(): void {
+    const state: IdempotencyState = {
+      version: 1,
+      records: [...this.records.values()].filter((record) => record.persist),
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    writeFileSync(temp, `${JSON.stringify(state, null, 2)}\n`, 'utf-8');
+    renameSync(temp, this.path);
+  }
+
+  private prune(now: Date): void {
+    let changed = false;
+    for (const [key, record] of this.records) {
+      if (Date.parse(record.expiresAt) <= now.getTime() && !this.inFlight.has(key)) {
+        this.records.delete(key);
+        changed ||= record.persist;
+      }
+    }
+    if (changed) this.persist();
+  }
+
+  get(key: string): IdempotencyRecord | undefined {
+    return this.records.get(key);
+  }
+
+  /**
+   * Runs `execute` once per key. A replay with the same fingerprint gets the
+   * stored result, or the promise of the call still running. A key reused for
+   * different content, or a call whose outcome is unknown, throws
+   * `IdempotencyError` instead of running anything. The outcome is unknown when
+   * the call failed after `execute` reported its command as sent, or when the
+   * process died first. Calls that fail before that release their key.
+   */
+  async run(
+    call: IdempotentCall,
+    execute: (sent: () => void) => Promise<McpToolResult>,
+    now = new Date(),
+  ): Promise<McpToolResult> {
+    this.prune(now);
+
+    const existing = this.records.get(call.key);
+    if (existing) {
+      if (existing.fingerprint !== call.fingerprint) {
+        throw new IdempotencyError('conflict', `idempotency key was already used for a different ${existing.tool} call`, existing);
+      }
+      const running = this.inFlight.get(call.key);
+      if (running) return running;
+      if (existing.status === 'completed' && existing.result) return existing.result;
+      throw new IdempotencyError(
+        'unfinished',
+        `a matching ${existing.tool} call started at ${existing.startedAt} did not finish cleanly; check open orders before retrying with a new key`,
+        existing,
+      );
+    }
+
+    const record: IdempotencyRecord = {
+      key: call.key,
+      fingerprint: call.fingerprint,
+      tool: call.tool,
+      status: 'pending',
+      startedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + call.ttlMs).toISOString(),
+      persist: call.persist,
+    };
+    this.records.set(call.key, record);
+    if (record.persist) this.persist();
+
+    let sent = false;
+    const promise = execute(() => { sent = true; }).then(
+      (result) => {
+        record.status = 'completed';
+        record.result = result;
+        if (record.persist) this.persist();
+        return result;
+      },
+      (error: unknown) => {
+        // Once the command went out, a timeout or error may still have placed the order.
+        if (!sent) {
+          this.records.delete(call.key);
+          if (record.persist) this.persist();
+        }
+        throw error;
+      },
+    ).finally(() => {
+      this.inFlight.delete(call.key);
+    });
+    this.inFlight.set(call.key, promise);
+    return promise;
+  }
+}
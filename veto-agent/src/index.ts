@@ -1,4 +1,5 @@
 export { loadConfig } from './config.js';
 export { listTools, getToolSpec } from './tools.js';
+export { loadCustomTools, mergeToolSpecs } from './registry.js';
 export { PolymarketVetoRuntime } from './runtime.js';
 export { serveStdio, serveSse } from './mcp.js';
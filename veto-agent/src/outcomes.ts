@@ -0,0 +1,70 @@
+import { asRecord } from './values.js';
+
+/**
+ * Maps a `{ market, outcome }` pair to the CLOB token id using the `markets get`
+ * payload, so agents can name what they trade instead of copying 77-digit ids.
+ */
+
+export interface OutcomeResolution {
+  market: string;
+  outcome: string;
+  token: string;
+  question: string | null;
+  outcomeLabel: string;
+  outcomes: string[];
+}
+
+/** Gamma returns `outcomes` and `clobTokenIds` either as arrays or as JSON-encoded strings. */
+function asTextList(value: unknown): string[] | null {
+  let list = value;
+  if (typeof list === 'string') {
+    try {
+      list = JSON.parse(list) as unknown;
+    } catch {
+      return null;
+    }
+  }
+  if (!Array.isArray(list)) return null;
+  if (!list.every((item) => typeof item === 'string' || typeof item === 'number')) return null;
+  return list.map((item) => String(item));
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase();
+}
+
+/**
+ * Matches `outcome` case-insensitively against the market's outcome labels and
+ * returns the token at the same index. Throws on unknown or ambiguous labels and
+ * on markets without tradable tokens.
+ */
+export function resolveOutcome(market: string, outcome: string, payload: unknown): OutcomeResolution {
+  const record = asRecord(payload);
+  const labels = asTextList(record.outcomes) ?? [];
+  const tokens = asTextList(record.clobTokenIds ?? record.clob_token_ids) ?? [];
+
+  if (labels.length === 0 || tokens.length !== labels.length) {
+    throw new Error(`Market '${market}' has no CLOB token ids to trade`);
+  }
+
+  const wanted = normalizeLabel(outcome);
+  const matches = labels.flatMap((label, index) => (normalizeLabel(label) === wanted ? [index] : []));
+
+  if (matches.length === 0) {
+    throw new Error(`Unknown outcome '${outcome}' for market '${market}': expected one of ${labels.join('|')}`);
+  }
+  if (matches.length > 1) {
+    throw new Error(`Ambiguous outcome '${outcome}' for market '${market}': ${matches.length} outcomes share that label`);
+  }
+
+  const index = matches[0]!;
+  const question = record.question;
+  return {
+    market,
+    outcome,
+    token: tokens[index]!,
+    question: typeof question === 'string' && question.trim().length > 0 ? question : null,
+    outcomeLabel: labels[index]!,
+    outcomes: labels,
+  };
+}
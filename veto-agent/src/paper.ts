@@ -0,0 +1,509 @@
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import type { OrderBook } from './analytics.js';
+import type { SimulatedOrder, SimulationFill, SimulationStatus } from './simulation.js';
+import type { ToolSpec } from './tools.js';
+import { round, toNumber } from './values.js';
+
+/** Paper-trading ledger for simulated orders, persisted next to the config. */
+
+export interface PaperPosition {
+  token: string;
+  shares: number;
+  costBasisUsd: number;
+  realizedPnlUsd: number;
+}
+
+export type PaperOrderStatus = SimulationStatus | 'cancelled' | 'expired';
+
+export interface PaperOrder {
+  id: string;
+  timestamp: string;
+  updatedAt: string;
+  tool: string;
+  token: string;
+  /** Condition id from the book snapshot, so market-wide cancels can match it. */
+  market: string | null;
+  side: 'buy' | 'sell';
+  orderType: string;
+  price: number | null;
+  size: number | null;
+  amount: number | null;
+  status: PaperOrderStatus;
+  reason?: string;
+  filledSize: number;
+  filledUsd: number;
+  averagePrice: number | null;
+  feesUsd: number;
+  restingSize: number;
+  restingPrice: number | null;
+  expiresAt: string | null;
+}
+
+export interface PaperLedgerOptions {
+  startingCashUsd: number;
+  /** The CLI has no expiration flag, so simulated GTD orders live this long. */
+  gtdTtlSeconds: number;
+}
+
+/** Which open orders a simulated cancel applies to; an empty filter means all. */
+export interface PaperCancelFilter {
+  orderIds?: string[];
+  market?: string;
+  asset?: string;
+}
+
+/** Book depth per price that resting paper orders already filled against, by side. */
+interface ConsumedDepth {
+  asks: Record<string, number>;
+  bids: Record<string, number>;
+}
+
+interface PaperState {
+  version: 1;
+  startingCashUsd: number;
+  cashUsd: number;
+  feesPaidUsd: number;
+  positions: Record<string, PaperPosition>;
+  orders: PaperOrder[];
+  /** Per token; kept across polls so a level that stays in the book fills paper orders once. */
+  consumed: Record<string, ConsumedDepth>;
+}
+
+export interface PaperPnl {
+  startingCashUsd: number;
+  cashUsd: number;
+  /** Part of `cashUsd` held by resting buy orders. */
+  heldCashUsd: number;
+  positionsValueUsd: number;
+  equityUsd: number;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  totalPnlUsd: number;
+  returnPct: number | null;
+  feesPaidUsd: number;
+  unpricedTokens: string[];
+}
+
+const MIDPOINT_BATCH = 100;
+
+export class PaperLedger {
+  private state: PaperState;
+
+  constructor(readonly path: string, private readonly options: PaperLedgerOptions) {
+    this.state = existsSync(path) ? PaperLedger.read(path) : {
+      version: 1,
+      startingCashUsd: options.startingCashUsd,
+      cashUsd: options.startingCashUsd,
+      feesPaidUsd: 0,
+      positions: {},
+      orders: [],
+      consumed: {},
+    };
+  }
+
+  private static read(path: string): PaperState {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(path, 'utf-8')) as unknown;
+    } catch (error) {
+      throw new Error(`Invalid paper ledger '${path}': ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const state = parsed as Partial<PaperState> | null;
+    if (
+      !state
+      || state.version !== 1
+      || typeof state.cashUsd !== 'number'
+      || typeof state.startingCashUsd !== 'number'
+      || !state.positions
+      || !Array.isArray(state.orders)
+    ) {
+      throw new Error(`Invalid paper ledger '${path}': unsupported format`);
+    }
+    return { feesPaidUsd: 0, consumed: {}, ...state } as PaperState;
+  }
+
+  /** Writes through a temp file so a crash mid-write never leaves a truncated ledger. */
+  private persist(): void {
+    mkdirSync(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    writeFileSync(temp, `${JSON.stringify(this.state, null, 2)}\n`, 'utf-8');
+    renameSync(temp, this.path);
+  }
+
+  get cashUsd(): number {
+    return this.state.cashUsd;
+  }
+
+  /**
+   * Moves cash and shares for one fill. Returns why the fill cannot be applied
+   * (not enough paper cash or shares) instead of applying it partially.
+   */
+  private applyFill(token: string, side: 'buy' | 'sell', filledSize: number, filledUsd: number, feesUsd: number): string | null {
+    const position = this.state.positions[token] ?? { token, shares: 0, costBasisUsd: 0, realizedPnlUsd: 0 };
+
+    if (side === 'buy' && filledUsd + feesUsd > this.state.cashUsd + 1e-9) {
+      return `insufficient paper cash: needs ${round(filledUsd + feesUsd)}, has ${round(this.state.cashUsd)}`;
+    }
+    if (side === 'sell' && filledSize > position.shares + 1e-9) {
+      return `insufficient paper position: selling ${filledSize}, holding ${round(position.shares)}`;
+    }
+
+    if (side === 'buy') {
+      position.shares = round(position.shares + filledSize);
+      position.costBasisUsd = round(position.costBasisUsd + filledUsd + feesUsd);
+      this.state.cashUsd = round(this.state.cashUsd - filledUsd - feesUsd);
+    } else {
+      const averageCost = position.shares > 0 ? position.costBasisUsd / position.shares : 0;
+      const releasedCost = averageCost * filledSize;
+      position.realizedPnlUsd = round(position.realizedPnlUsd + filledUsd - feesUsd - releasedCost);
+      position.costBasisUsd = round(Math.max(position.costBasisUsd - releasedCost, 0));
+      position.shares = round(position.shares - filledSize);
+      this.state.cashUsd = round(this.state.cashUsd + filledUsd - feesUsd);
+    }
+    this.state.feesPaidUsd = round(this.state.feesPaidUsd + feesUsd);
+    this.state.positions[token] = position;
+    return null;
+  }
+
+  /** Cash held by open buy orders at their limit price; released when they fill, cancel or expire. */
+  get heldCashUsd(): number {
+    return round(this.openOrders()
+      .filter((order) => order.side === 'buy')
+      .reduce((total, order) => total + order.restingSize * (order.restingPrice ?? 0), 0));
+  }
+
+  private heldShares(token: string): number {
+    return round(this.openOrders()
+      .filter((order) => order.side === 'sell' && order.token === token)
+      .reduce((total, order) => total + order.restingSize, 0));
+  }
+
+  /** Like the CLOB, an order must cover its resting remainder as well as its immediate fill. */
+  private checkFunds(order: SimulatedOrder, fill: SimulationFill): string | null {
+    const resting = fill.restingSize > 0 ? fill.restingSize : 0;
+    if (order.side === 'buy') {
+      const needed = fill.filledUsd + (fill.feesUsd ?? 0) + resting * (fill.restingPrice ?? 0);
+      const available = this.state.cashUsd - this.heldCashUsd;
+      return needed > available + 1e-9 ? `insufficient paper cash: needs ${round(needed)}, has ${round(available)}` : null;
+    }
+    const needed = fill.filledSize + resting;
+    const available = (this.state.positions[order.token]?.shares ?? 0) - this.heldShares(order.token);
+    return needed > available + 1e-9 ? `insufficient paper position: selling ${round(needed)}, holding ${round(available)}` : null;
+  }
+
+  /**
+   * Applies a simulated fill. Buys that cost more than the free paper cash and
+   * sells larger than the free paper position, counting any resting remainder,
+   * are recorded as rejected and move nothing. Ids are 32-byte hex like CLOB
+   * order ids, so the cancel tools accept them.
+   */
+  record(tool: string, order: SimulatedOrder, fill: SimulationFill, market: string | null = null, now = new Date()): PaperOrder {
+    const feesUsd = fill.feesUsd ?? 0;
+    const rejection = fill.filledSize > 0 || fill.restingSize > 0
+      ? this.checkFunds(order, fill) ?? (fill.filledSize > 0 ? this.applyFill(order.token, order.side, fill.filledSize, fill.filledUsd, feesUsd) : null)
+      : null;
+    const applied = fill.filledSize > 0 && rejection === null;
+    const status = rejection ? 'rejected' : fill.status;
+    const reason = rejection ?? fill.reason;
+    const restingSize = rejection ? 0 : fill.restingSize;
+    const sequence = this.state.orders.length + 1;
+
+    const entry: PaperOrder = {
+      id: `0x${createHash('sha256').update(`paper:${sequence}:${now.toISOString()}:${order.token}`).digest('hex')}`,
+      timestamp: now.toISOString(),
+      updatedAt: now.toISOString(),
+      tool,
+      token: order.token,
+      market,
+      side: order.side,
+      orderType: order.orderType,
+      price: order.price ?? null,
+      size: order.size ?? null,
+      amount: order.amount ?? null,
+      status,
+      ...(reason ? { reason } : {}),
+      filledSize: applied ? fill.filledSize : 0,
+      filledUsd: applied ? fill.filledUsd : 0,
+      averagePrice: applied ? fill.averagePrice : null,
+      feesUsd: applied ? feesUsd : 0,
+      restingSize,
+      restingPrice: restingSize > 0 ? fill.restingPrice : null,
+      expiresAt: restingSize > 0 && order.orderType === 'GTD'
+        ? new Date(now.getTime() + this.options.gtdTtlSeconds * 1000).toISOString()
+        : null,
+    };
+    this.state.orders.push(entry);
+    this.persist();
+    return entry;
+  }
+
+  openOrders(): PaperOrder[] {
+    return this.state.orders.filter((order) => order.restingSize > 0 && order.status !== 'cancelled' && order.status !== 'expired');
+  }
+
+  private close(order: PaperOrder, status: 'cancelled' | 'expired', reason: string, now: Date): void {
+    order.status = status;
+    order.reason = reason;
+    order.restingSize = 0;
+    order.restingPrice = null;
+    order.updatedAt = now.toISOString();
+  }
+
+  /** Closes GTD orders whose expiry has passed. */
+  expire(now = new Date()): PaperOrder[] {
+    const expired = this.openOrders().filter((order) => order.expiresAt !== null && Date.parse(order.expiresAt) <= now.getTime());
+    for (const order of expired) this.close(order, 'expired', `GTD order expired at ${order.expiresAt}`, now);
+    if (expired.length > 0) this.persist();
+    return expired;
+  }
+
+  cancel(filter: PaperCancelFilter, now = new Date()): PaperOrder[] {
+    const ids = filter.orderIds ? new Set(filter.orderIds.map((id) => id.toLowerCase())) : null;
+    const market = filter.market?.toLowerCase();
+    const cancelled = this.openOrders().filter((order) => (
+      (ids === null || ids.has(order.id))
+      && (market === undefined || order.market?.toLowerCase() === market)
+      && (filter.asset === undefined || order.token === filter.asset)
+    ));
+    for (const order of cancelled) this.close(order, 'cancelled', 'cancelled by simulated cancel', now);
+    if (cancelled.length > 0) this.persist();
+    return cancelled;
+  }
+
+  /**
+   * Fills this token's open orders against a fresh book snapshot. An order fills
+   * when the opposite side trades through its limit, at its own (maker) price,
+   * consuming the crossing liquidity. Consumed depth is remembered per price
+   * across polls, so a level that sits in the book fills paper orders once; only
+   * depth added since the last poll is new. Maker fills pay no fee. If the
+   * account can no longer cover a fill, the order is cancelled.
+   */
+  fillResting(token: string, book: OrderBook, now = new Date()): PaperOrder[] {
+    const previous = this.state.consumed[token] ?? { asks: {}, bids: {} };
+    const track = (levels: OrderBook['asks'], used: Record<string, number>) => levels.map((level) => {
+      const consumed = Math.min(used[String(level.price)] ?? 0, level.size);
+      return { price: level.price, size: level.size - consumed, consumed };
+    });
+    const remaining = {
+      asks: track(book.asks, previous.asks),
+      bids: track(book.bids, previous.bids),
+    };
+    const orders = this.openOrders()
+      .filter((order) => order.token === token && order.restingPrice !== null)
+      .sort((a, b) => (a.side === 'buy' ? b.restingPrice! - a.restingPrice! : a.restingPrice! - b.restingPrice!));
+
+    const changed: PaperOrder[] = [];
+    for (const order of orders) {
+      const limit = order.restingPrice!;
+      const levels = order.side === 'buy'
+        ? remaining.asks.filter((level) => level.price <= limit)
+        : remaining.bids.filter((level) => level.price >= limit);
+
+      let size = 0;
+      for (const level of levels) {
+        const take = Math.min(level.size, order.restingSize - size);
+        level.size -= take;
+        level.consumed += take;
+        size += take;
+        if (order.restingSize - size <= 1e-9) break;
+      }
+      if (size <= 1e-9) continue;
+
+      size = round(size);
+      const filledUsd = round(size * limit);
+      const rejection = this.applyFill(order.token, order.side, size, filledUsd, 0);
+      if (rejection) {
+        this.close(order, 'cancelled', rejection, now);
+      } else {
+        order.filledSize = round(order.filledSize + size);
+        order.filledUsd = round(order.filledUsd + filledUsd);
+        order.averagePrice = round(order.filledUsd / order.filledSize);
+        order.restingSize = round(order.restingSize - size);
+        if (order.restingSize <= 1e-9) {
+          order.restingSize = 0;
+          order.restingPrice = null;
+          order.status = 'filled';
+        } else {
+          order.status = 'partially_filled';
+        }
+        order.updatedAt = now.toISOString();
+      }
+      changed.push(order);
+    }
+
+    // Levels gone from the book drop out; a level that comes back is new liquidity.
+    const used = (levels: typeof remaining.asks): Record<string, number> => Object.fromEntries(
+      levels.filter((level) => level.consumed > 1e-9).map((level) => [String(level.price), round(level.consumed)]),
+    );
+    const consumed = { asks: used(remaining.asks), bids: used(remaining.bids) };
+    const before = JSON.stringify(this.state.consumed[token] ?? null);
+    const open = this.openOrders().some((order) => order.token === token);
+    if (open && (Object.keys(consumed.asks).length > 0 || Object.keys(consumed.bids).length > 0)) {
+      this.state.consumed[token] = consumed;
+    } else {
+      delete this.state.consumed[token];
+    }
+
+    if (changed.length > 0 || JSON.stringify(this.state.consumed[token] ?? null) !== before) this.persist();
+    return changed;
+  }
+
+  positions(): PaperPosition[] {
+    return Object.values(this.state.positions).filter((position) => position.shares > 1e-9);
+  }
+
+  orders(): PaperOrder[] {
+    return [...this.state.orders];
+  }
+
+  /** Marks open positions at `midpoints`; tokens without a midpoint are held at cost. */
+  pnl(midpoints: Record<string, number | null>): PaperPnl {
+    let positionsValueUsd = 0;
+    let unrealizedPnlUsd = 0;
+    const unpricedTokens: string[] = [];
+
+    for (const position of this.positions()) {
+      const midpoint = midpoints[position.token] ?? null;
+      if (midpoint === null) {
+        unpricedTokens.push(position.token);
+        positionsValueUsd += position.costBasisUsd;
+        continue;
+      }
+      const value = position.shares * midpoint;
+      positionsValueUsd += value;
+      unrealizedPnlUsd += value - position.costBasisUsd;
+    }
+
+    const realizedPnlUsd = Object.values(this.state.positions).reduce((sum, position) => sum + position.realizedPnlUsd, 0);
+    const equityUsd = this.state.cashUsd + positionsValueUsd;
+    const totalPnlUsd = equityUsd - this.state.startingCashUsd;
+
+    return {
+      startingCashUsd: this.state.startingCashUsd,
+      cashUsd: this.state.cashUsd,
+      heldCashUsd: this.heldCashUsd,
+      positionsValueUsd: round(positionsValueUsd),
+      equityUsd: round(equityUsd),
+      realizedPnlUsd: round(realizedPnlUsd),
+      unrealizedPnlUsd: round(unrealizedPnlUsd),
+      totalPnlUsd: round(totalPnlUsd),
+      returnPct: this.state.startingCashUsd > 0 ? round((totalPnlUsd / this.state.startingCashUsd) * 100, 4) : null,
+      feesPaidUsd: this.state.feesPaidUsd,
+      unpricedTokens,
+    };
+  }
+}
+
+/** Fetches midpoints for `tokens` through `clob midpoints`, in CLI-sized batches. */
+async function fetchMidpoints(
+  run: (argv: string[]) => Promise<unknown>,
+  tokens: string[],
+): Promise<Record<string, number | null>> {
+  const midpoints: Record<string, number | null> = {};
+  for (let start = 0; start < tokens.length; start += MIDPOINT_BATCH) {
+    const chunk = tokens.slice(start, start + MIDPOINT_BATCH);
+    const output = await run(['clob', 'midpoints', chunk.join(',')]);
+    const record = output && typeof output === 'object' && !Array.isArray(output) ? output as Record<string, unknown> : {};
+    for (const token of chunk) midpoints[token] = toNumber(record[token]);
+  }
+  return midpoints;
+}
+
+const PAPER_ORDER_STATUSES: PaperOrderStatus[] = ['filled', 'partially_filled', 'resting', 'killed', 'rejected', 'cancelled', 'expired'];
+
+/** Read tools over the paper account; they only ever call `clob midpoints`. */
+export function paperTools(ledger: PaperLedger): ToolSpec[] {
+  return [
+    {
+      name: 'paper_positions',
+      description: 'List paper-trading positions marked to live midpoints, with cost basis and unrealized P&L.',
+      mutating: false,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      },
+      build(args) {
+        if (Object.keys(args).length > 0) {
+          throw new Error(`Unexpected argument '${Object.keys(args)[0]}'`);
+        }
+        return {
+          argv: [],
+          guardArgs: {},
+          async compose(run) {
+            const positions = ledger.positions();
+            const midpoints = await fetchMidpoints(run, positions.map((position) => position.token));
+            return positions.map((position) => {
+              const midpoint = midpoints[position.token] ?? null;
+              const marketValueUsd = midpoint === null ? null : round(position.shares * midpoint);
+              return {
+                ...position,
+                averageCost: round(position.costBasisUsd / position.shares),
+                midpoint,
+                marketValueUsd,
+                unrealizedPnlUsd: marketValueUsd === null ? null : round(marketValueUsd - position.costBasisUsd),
+              };
+            });
+          },
+        };
+      },
+    },
+    {
+      name: 'paper_orders',
+      description: 'List simulated orders recorded in the paper-trading account, newest first.',
+      mutating: false,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          status: { type: 'string', enum: PAPER_ORDER_STATUSES },
+          limit: { type: 'integer', minimum: 1 },
+        },
+        additionalProperties: false,
+      },
+      build(args) {
+        for (const key of Object.keys(args)) {
+          if (key !== 'status' && key !== 'limit') throw new Error(`Unexpected argument '${key}'`);
+        }
+        const status = args.status as PaperOrderStatus | undefined;
+        if (status !== undefined && !PAPER_ORDER_STATUSES.includes(status)) {
+          throw new Error(`Invalid 'status': expected ${PAPER_ORDER_STATUSES.join('|')}`);
+        }
+        const limit = typeof args.limit === 'number' ? args.limit : undefined;
+        return {
+          argv: [],
+          guardArgs: { status, limit },
+          async compose() {
+            const orders = ledger.orders().reverse().filter((order) => status === undefined || order.status === status);
+            return limit === undefined ? orders : orders.slice(0, limit);
+          },
+        };
+      },
+    },
+    {
+      name: 'paper_pnl',
+      description: 'Report paper-trading cash, equity and realized/unrealized P&L marked to live midpoints.',
+      mutating: false,
+      inputSchema: {
+        type: 'object',
+        properties: {},
+        additionalProperties: false,
+      },
+      build(args) {
+        if (Object.keys(args).length > 0) {
+          throw new Error(`Unexpected argument '${Object.keys(args)[0]}'`);
+        }
+        return {
+          argv: [],
+          guardArgs: {},
+          async compose(run) {
+            const midpoints = await fetchMidpoints(run, ledger.positions().map((position) => position.token));
+            return ledger.pnl(midpoints);
+          },
+        };
+      },
+    },
+  ];
+}
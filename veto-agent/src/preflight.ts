@@ -0,0 +1,165 @@
+/** Checks orders against live market metadata before the guard sees them. */
+
+import type { SchemaIssue } from './schema.js';
+import { asRecord, round, toNumber, toText } from './values.js';
+
+export interface MarketMetadata {
+  token: string;
+  conditionId: string | null;
+  tickSize: number | null;
+  negRisk: boolean | null;
+  acceptingOrders: boolean | null;
+  closed: boolean | null;
+  minOrderSize: number | null;
+  endDate: string | null;
+}
+
+export interface PreflightOrder {
+  token: string;
+  side: 'buy' | 'sell';
+  price?: number;
+  size?: number;
+}
+
+export interface PreflightOptions {
+  snapToTick: boolean;
+  now?: Date;
+}
+
+export interface PreflightResult {
+  errors: SchemaIssue[];
+  price?: number;
+  snapped: boolean;
+  guardFields: Record<string, unknown>;
+}
+
+function toBoolean(value: unknown): boolean | null {
+  return typeof value === 'boolean' ? value : null;
+}
+
+/** Decimal places of a tick such as 0.01 or 0.001, used to avoid float drift when snapping. */
+function tickDecimals(tick: number): number {
+  const text = String(tick);
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : text.length - dot - 1;
+}
+
+/**
+ * Merges `clob tick-size`, `clob neg-risk`, `clob book` and `clob market`
+ * payloads. The dedicated endpoints win; book and market fields fill gaps.
+ */
+export function parseMarketMetadata(
+  token: string,
+  tickSize: unknown,
+  negRisk: unknown,
+  book: unknown,
+  market: unknown,
+): MarketMetadata {
+  const tick = asRecord(tickSize);
+  const neg = asRecord(negRisk);
+  const bookRecord = asRecord(book);
+  const marketRecord = asRecord(market);
+
+  return {
+    token,
+    conditionId: toText(marketRecord.condition_id) ?? toText(bookRecord.market),
+    tickSize: toNumber(tick.minimum_tick_size) ?? toNumber(bookRecord.tick_size) ?? toNumber(marketRecord.minimum_tick_size),
+    negRisk: toBoolean(neg.neg_risk) ?? toBoolean(bookRecord.neg_risk) ?? toBoolean(marketRecord.neg_risk),
+    acceptingOrders: toBoolean(marketRecord.accepting_orders),
+    closed: toBoolean(marketRecord.closed),
+    minOrderSize: toNumber(marketRecord.minimum_order_size) ?? toNumber(bookRecord.min_order_size),
+    endDate: toText(marketRecord.end_date_iso),
+  };
+}
+
+/**
+ * Rounds onto the tick grid in the trader's favour: buys round down so they
+ * never pay more than asked, sells round up so they never receive less.
+ */
+export function snapPrice(price: number, tick: number, side: 'buy' | 'sell'): number {
+  const steps = price / tick;
+  const snappedSteps = isOnTick(price, tick) ? Math.round(steps) : side === 'buy' ? Math.floor(steps) : Math.ceil(steps);
+  return round(snappedSteps * tick, tickDecimals(tick));
+}
+
+function isOnTick(price: number, tick: number): boolean {
+  const steps = price / tick;
+  return Math.abs(steps - Math.round(steps)) < 1e-9;
+}
+
+export function evaluateOrder(
+  order: PreflightOrder,
+  meta: MarketMetadata,
+  options: PreflightOptions,
+  prefix = '',
+): PreflightResult {
+  const errors: SchemaIssue[] = [];
+  const now = options.now ?? new Date();
+  let price = order.price;
+  let snapped = false;
+
+  if (meta.closed === true) {
+    errors.push({ path: `${prefix}token`, message: `Market for token ${order.token} is closed` });
+  }
+  if (meta.acceptingOrders === false) {
+    errors.push({ path: `${prefix}token`, message: `Market for token ${order.token} is not accepting orders` });
+  }
+
+  let hoursToEnd: number | null = null;
+  if (meta.endDate !== null) {
+    const end = Date.parse(meta.endDate);
+    if (Number.isFinite(end)) {
+      hoursToEnd = round((end - now.getTime()) / 3_600_000, 2);
+      if (hoursToEnd <= 0) {
+        errors.push({ path: `${prefix}token`, message: `Market for token ${order.token} ended at ${meta.endDate}` });
+      }
+    }
+  }
+
+  if (price !== undefined && meta.tickSize !== null && meta.tickSize > 0) {
+    const tick = meta.tickSize;
+    if (!isOnTick(price, tick)) {
+      if (options.snapToTick) {
+        price = snapPrice(price, tick, order.side);
+        snapped = true;
+      } else {
+        errors.push({
+          path: `${prefix}price`,
+          message: `Invalid '${prefix}price': ${order.price} is not a multiple of tick size ${tick}`,
+        });
+      }
+    }
+
+    const min = tick;
+    const max = round(1 - tick, tickDecimals(tick));
+    if (price < min || price > max) {
+      errors.push({
+        path: `${prefix}price`,
+        message: `Invalid '${prefix}price': expected ${min} to ${max} for tick size ${tick}, got ${price}`,
+      });
+    }
+  }
+
+  if (order.size !== undefined && meta.minOrderSize !== null && order.size < meta.minOrderSize) {
+    errors.push({
+      path: `${prefix}size`,
+      message: `Invalid '${prefix}size': ${order.size} is below the market minimum of ${meta.minOrderSize}`,
+    });
+  }
+
+  return {
+    errors,
+    price,
+    snapped,
+    guardFields: {
+      condition_id: meta.conditionId,
+      tick_size: meta.tickSize,
+      neg_risk: meta.negRisk,
+      accepting_orders: meta.acceptingOrders,
+      min_order_size: meta.minOrderSize,
+      end_date: meta.endDate,
+      hours_to_end: hoursToEnd,
+      ...(snapped ? { requested_price: order.price } : {}),
+    },
+  };
+}
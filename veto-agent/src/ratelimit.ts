@@ -0,0 +1,74 @@
+/** Token-bucket throttling; a call is charged to every bucket that applies to it. */
+
+export interface RateLimitConfig {
+  perMinute: number;
+  /** Bucket capacity: how many calls may go back to back after a quiet period. */
+  burst: number;
+}
+
+export interface RateLimitCharge {
+  /** Bucket name such as `tool:order_market` or `orders`; also used in errors. */
+  key: string;
+  limit: RateLimitConfig;
+  cost: number;
+}
+
+export interface RateLimitRejection extends RateLimitCharge {
+  /** Null when the cost exceeds the bucket's burst, so waiting cannot help. */
+  retryAfterMs: number | null;
+}
+
+export interface BucketState extends RateLimitConfig {
+  key: string;
+  available: number;
+}
+
+interface Bucket {
+  limit: RateLimitConfig;
+  tokens: number;
+  updatedAt: number;
+}
+
+export class RateLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  private refill(key: string, limit: RateLimitConfig, now: number): Bucket {
+    const bucket = this.buckets.get(key) ?? { limit, tokens: limit.burst, updatedAt: now };
+    const elapsed = Math.max(now - bucket.updatedAt, 0);
+    bucket.limit = limit;
+    bucket.tokens = Math.min(limit.burst, bucket.tokens + (elapsed * limit.perMinute) / 60_000);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+    return bucket;
+  }
+
+  /** Charges every bucket, or none of them and reports the one slowest to recover. */
+  acquire(charges: RateLimitCharge[], now = Date.now()): RateLimitRejection | null {
+    let rejection: RateLimitRejection | null = null;
+
+    for (const charge of charges) {
+      const bucket = this.refill(charge.key, charge.limit, now);
+      if (bucket.tokens + 1e-9 >= charge.cost) continue;
+
+      const retryAfterMs = charge.cost > charge.limit.burst
+        ? null
+        : Math.ceil(((charge.cost - bucket.tokens) * 60_000) / charge.limit.perMinute);
+      const slower = rejection === null
+        || (rejection.retryAfterMs !== null && (retryAfterMs === null || retryAfterMs > rejection.retryAfterMs));
+      if (slower) rejection = { ...charge, retryAfterMs };
+    }
+
+    if (rejection) return rejection;
+    for (const charge of charges) this.buckets.get(charge.key)!.tokens -= charge.cost;
+    return null;
+  }
+
+  /** Buckets used so far, refilled to `now`. */
+  snapshot(now = Date.now()): BucketState[] {
+    return [...this.buckets.entries()].map(([key, bucket]) => {
+      const { perMinute, burst } = bucket.limit;
+      const available = Math.min(burst, bucket.tokens + (Math.max(now - bucket.updatedAt, 0) * perMinute) / 60_000);
+      return { key, perMinute, burst, available: Number(available.toFixed(3)) };
+    });
+  }
+}
@@ -0,0 +1,491 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { parse as parseYaml } from 'yaml';
+import type { CommandBuildResult, ToolCategory, ToolSchema, ToolSpec } from './tools.js';
+
+/**
+ * Declarative tools loaded from `polymarket-veto.tools.yaml`. Each entry maps a
+ * JSON input schema onto an argv template and guard args, so new CLI commands
+ * can be exposed (and policy-guarded) without editing `tools.ts`.
+ */
+
+type PropertyType = 'string' | 'number' | 'integer' | 'boolean' | 'array';
+
+interface PropertyDef {
+  type: PropertyType;
+  enum?: string[];
+}
+
+type ArgvPart =
+  | { kind: 'literal'; value: string }
+  | { kind: 'positional'; field: string }
+  | { kind: 'option'; flag: string; field: string }
+  | { kind: 'switch'; flag: string; field: string };
+
+type GuardTemplate =
+  | { kind: 'constant'; value: unknown }
+  | { kind: 'field'; field: string }
+  | { kind: 'expression'; tokens: ExpressionToken[]; fields: string[] };
+
+type ExpressionToken =
+  | { kind: 'number'; value: number }
+  | { kind: 'field'; field: string }
+  | { kind: 'op'; value: '+' | '-' | '*' | '/' | '(' | ')' };
+
+const TOOL_NAME_PATTERN = /^[a-z][a-z0-9_]{0,63}$/;
+const FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /^\{([A-Za-z_][A-Za-z0-9_]*)\}$/;
+const LITERAL_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._:-]*$/;
+const FLAG_PATTERN = /^--[a-z][a-z0-9-]*$/;
+
+/** Top-level CLI command groups a custom tool may target. */
+const ALLOWED_COMMAND_GROUPS = new Set([
+  'markets',
+  'events',
+  'tags',
+  'series',
+  'comments',
+  'profiles',
+  'sports',
+  'approve',
+  'clob',
+  'ctf',
+  'data',
+  'bridge',
+  'status',
+]);
+
+/** Command groups that run without a subcommand. */
+const BARE_COMMAND_GROUPS = new Set(['status']);
+
+/**
+ * `group subcommand` pairs with a built-in tool. Policy rules, preflight and
+ * budgets key on the built-in names, so custom tools may not wrap these.
+ */
+const BUILT_IN_COMMANDS = new Map([
+  ['clob create-order', 'order_create_limit'],
+  ['clob post-orders', 'order_batch_limit'],
+  ['clob market-order', 'order_market'],
+  ['clob cancel', 'order_cancel'],
+  ['clob cancel-orders', 'order_cancel_orders'],
+  ['clob cancel-all', 'order_cancel_all'],
+  ['clob cancel-market', 'order_cancel_market'],
+  ['ctf split', 'ctf_split'],
+  ['ctf merge', 'ctf_merge'],
+  ['ctf redeem', 'ctf_redeem'],
+  ['ctf redeem-neg-risk', 'ctf_redeem_neg_risk'],
+  ['approve set', 'approve_set'],
+  ['bridge deposit', 'bridge_deposit_address'],
+]);
+
+/** Account-changing commands without a built-in tool; custom tools over them must be mutating. */
+const MUTATING_COMMANDS = new Set([
+  'clob update-balance',
+  'clob delete-notifications',
+]);
+
+/** Subcommands and global flags that manage credentials or the output format. */
+const FORBIDDEN_LITERALS = new Set([
+  'api-keys',
+  'create-api-key',
+  'delete-api-key',
+  '--output',
+  '--private-key',
+  '--signature-type',
+]);
+
+const CATEGORIES: readonly ToolCategory[] = ['public_read', 'authenticated_read', 'sensitive_read', 'mutating'];
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function fail(tool: string, message: string): never {
+  throw new Error(`Invalid custom tool '${tool}': ${message}`);
+}
+
+function parseProperties(tool: string, schema: Record<string, unknown>): Map<string, PropertyDef> {
+  const properties = asRecord(schema.properties) ?? {};
+  const parsed = new Map<string, PropertyDef>();
+
+  for (const [field, raw] of Object.entries(properties)) {
+    if (!FIELD_PATTERN.test(field)) fail(tool, `property name '${field}' is not a plain identifier`);
+    const property = asRecord(raw);
+    const type = property?.type;
+    if (type !== 'string' && type !== 'number' && type !== 'integer' && type !== 'boolean' && type !== 'array') {
+      fail(tool, `property '${field}' must declare type string, number, integer, boolean or array`);
+    }
+    if (type === 'array' && asRecord(property!.items)?.type !== 'string') {
+      fail(tool, `array property '${field}' must declare items of type string`);
+    }
+
+    const def: PropertyDef = { type };
+    if (property!.enum !== undefined) {
+      if (type !== 'string' || !Array.isArray(property!.enum) || !property!.enum.every((item) => typeof item === 'string')) {
+        fail(tool, `enum on '${field}' must be a list of strings on a string property`);
+      }
+      def.enum = property!.enum as string[];
+    }
+    parsed.set(field, def);
+  }
+
+  return parsed;
+}
+
+function parseArgv(
+  tool: string,
+  raw: unknown,
+  properties: Map<string, PropertyDef>,
+  required: Set<string>,
+): ArgvPart[] {
+  if (!Array.isArray(raw) || raw.length === 0) fail(tool, 'argv must be a non-empty list');
+
+  const parts = raw.map((item, index): ArgvPart => {
+    if (typeof item === 'string') {
+      const placeholder = PLACEHOLDER_PATTERN.exec(item);
+      if (placeholder) {
+        const field = placeholder[1]!;
+        if (!properties.has(field)) fail(tool, `argv[${index}] references unknown property '${field}'`);
+        if (!required.has(field)) fail(tool, `positional argv[${index}] must reference a required property, not '${field}'`);
+        if (properties.get(field)!.type === 'boolean') fail(tool, `positional argv[${index}] cannot be boolean '${field}'`);
+        return { kind: 'positional', field };
+      }
+      if (item.includes('{') || item.includes('}')) {
+        fail(tool, `argv[${index}] '${item}' mixes literal text with a placeholder`);
+      }
+      if (!LITERAL_PATTERN.test(item) && !FLAG_PATTERN.test(item)) {
+        fail(tool, `argv[${index}] '${item}' is not a plain word or --flag`);
+      }
+      if (FORBIDDEN_LITERALS.has(item)) fail(tool, `argv[${index}] '${item}' is not allowed`);
+      return { kind: 'literal', value: item };
+    }
+
+    const option = asRecord(item);
+    const flag = option?.flag;
+    if (typeof flag !== 'string' || !FLAG_PATTERN.test(flag)) {
+      fail(tool, `argv[${index}] must be a string or { flag: --name, value | when }`);
+    }
+    if (FORBIDDEN_LITERALS.has(flag)) fail(tool, `argv[${index}] flag '${flag}' is not allowed`);
+
+    if (typeof option!.value === 'string' && option!.when === undefined) {
+      const placeholder = PLACEHOLDER_PATTERN.exec(option!.value);
+      if (!placeholder || !properties.has(placeholder[1]!)) {
+        fail(tool, `argv[${index}] value must be a placeholder for a declared property`);
+      }
+      return { kind: 'option', flag, field: placeholder[1]! };
+    }
+
+    if (typeof option!.when === 'string' && option!.value === undefined) {
+      if (properties.get(option!.when)?.type !== 'boolean') {
+        fail(tool, `argv[${index}] 'when' must name a boolean property`);
+      }
+      return { kind: 'switch', flag, field: option!.when };
+    }
+
+    fail(tool, `argv[${index}] needs exactly one of 'value' or 'when'`);
+  });
+
+  const first = parts[0]!;
+  if (first.kind !== 'literal' || !ALLOWED_COMMAND_GROUPS.has(first.value)) {
+    fail(tool, `argv must start with one of: ${[...ALLOWED_COMMAND_GROUPS].join(', ')}`);
+  }
+  // The subcommand decides whether the tool trades, so it is never left to the caller.
+  const second = parts[1];
+  if (!BARE_COMMAND_GROUPS.has(first.value) && (second?.kind !== 'literal' || !LITERAL_PATTERN.test(second.value))) {
+    fail(tool, `argv[1] must be a literal '${first.value}' subcommand`);
+  }
+
+  return parts;
+}
+
+function tokenizeExpression(tool: string, key: string, source: string, properties: Map<string, PropertyDef>): ExpressionToken[] {
+  const tokens: ExpressionToken[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d+)?)|\{([A-Za-z_][A-Za-z0-9_]*)\}|([-+*/()]))/y;
+  let offset = 0;
+
+  while (offset < source.length) {
+    if (source.slice(offset).trim().length === 0) break;
+    pattern.lastIndex = offset;
+    const match = pattern.exec(source);
+    if (!match) fail(tool, `guardArgs.${key} is not an arithmetic expression over numeric properties`);
+
+    if (match[1] !== undefined) {
+      tokens.push({ kind: 'number', value: Number(match[1]) });
+    } else if (match[2] !== undefined) {
+      const type = properties.get(match[2])?.type;
+      if (type !== 'number' && type !== 'integer') {
+        fail(tool, `guardArgs.${key} references '${match[2]}', which is not a numeric property`);
+      }
+      tokens.push({ kind: 'field', field: match[2] });
+    } else {
+      tokens.push({ kind: 'op', value: match[3] as '+' | '-' | '*' | '/' | '(' | ')' });
+    }
+    offset = pattern.lastIndex;
+  }
+
+  // Dry-run with ones so malformed expressions fail at load time, not per call.
+  if (evaluateExpression(tokens, () => 1) === undefined) {
+    fail(tool, `guardArgs.${key} is not a well-formed expression`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive-descent evaluator for `+ - * /` and parentheses; never uses eval.
+ * Returns undefined only for malformed input, so division by zero stays visible.
+ */
+function evaluateExpression(tokens: ExpressionToken[], lookup: (field: string) => number | undefined): number | undefined {
+  let position = 0;
+
+  const primary = (): number | undefined => {
+    const token = tokens[position++];
+    if (!token) return undefined;
+    if (token.kind === 'number') return token.value;
+    if (token.kind === 'field') return lookup(token.field);
+    if (token.value === '-') {
+      const value = primary();
+      return value === undefined ? undefined : -value;
+    }
+    if (token.value === '(') {
+      const value = sum();
+      const close = tokens[position++];
+      return close?.kind === 'op' && close.value === ')' ? value : undefined;
+    }
+    return undefined;
+  };
+
+  const product = (): number | undefined => {
+    let value = primary();
+    while (value !== undefined) {
+      const token = tokens[position];
+      if (token?.kind !== 'op' || (token.value !== '*' && token.value !== '/')) break;
+      position++;
+      const right = primary();
+      if (right === undefined) return undefined;
+      value = token.value === '*' ? value * right : value / right;
+    }
+    return value;
+  };
+
+  const sum = (): number | undefined => {
+    let value = product();
+    while (value !== undefined) {
+      const token = tokens[position];
+      if (token?.kind !== 'op' || (token.value !== '+' && token.value !== '-')) break;
+      position++;
+      const right = product();
+      if (right === undefined) return undefined;
+      value = token.value === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const result = sum();
+  return position === tokens.length ? result : undefined;
+}
+
+function parseGuardArgs(tool: string, raw: unknown, properties: Map<string, PropertyDef>): Map<string, GuardTemplate> {
+  const templates = new Map<string, GuardTemplate>();
+  if (raw === undefined) {
+    for (const field of properties.keys()) templates.set(field, { kind: 'field', field });
+    return templates;
+  }
+
+  const record = asRecord(raw);
+  if (!record) fail(tool, 'guardArgs must be a mapping');
+
+  for (const [key, value] of Object.entries(record)) {
+    if (key === 'tool_category' || key === 'timestamp') fail(tool, `guardArgs.${key} is reserved`);
+    if (typeof value !== 'string' || !value.includes('{')) {
+      templates.set(key, { kind: 'constant', value });
+      continue;
+    }
+
+    const placeholder = PLACEHOLDER_PATTERN.exec(value);
+    if (placeholder) {
+      if (!properties.has(placeholder[1]!)) fail(tool, `guardArgs.${key} references unknown property '${placeholder[1]}'`);
+      templates.set(key, { kind: 'field', field: placeholder[1]! });
+      continue;
+    }
+
+    const tokens = tokenizeExpression(tool, key, value, properties);
+    const fields = tokens.flatMap((token) => token.kind === 'field' ? [token.field] : []);
+    templates.set(key, { kind: 'expression', tokens, fields });
+  }
+
+  return templates;
+}
+
+function coerceArgument(field: string, def: PropertyDef, value: unknown): unknown {
+  switch (def.type) {
+    case 'string': {
+      if (typeof value !== 'string' || value.trim().length === 0) {
+        throw new Error(`Invalid '${field}': expected non-empty string`);
+      }
+      const text = value.trim();
+      if (def.enum && !def.enum.includes(text)) {
+        throw new Error(`Invalid '${field}': expected one of ${def.enum.join('|')}`);
+      }
+      return text;
+    }
+    case 'number':
+    case 'integer': {
+      const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : Number.NaN;
+      if (!Number.isFinite(parsed) || (def.type === 'integer' && !Number.isInteger(parsed))) {
+        throw new Error(`Invalid '${field}': expected ${def.type}`);
+      }
+      return parsed;
+    }
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        throw new Error(`Invalid '${field}': expected boolean`);
+      }
+      return value;
+    case 'array':
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new Error(`Invalid '${field}': expected non-empty array of strings`);
+      }
+      return value.map((item, index) => {
+        if (typeof item !== 'string' || item.trim().length === 0) {
+          throw new Error(`Invalid '${field}[${index}]': expected non-empty string`);
+        }
+        if (item.includes(',')) {
+          throw new Error(`Invalid '${field}[${index}]': must not contain ','`);
+        }
+        return item.trim();
+      });
+  }
+}
+
+/** Renders a validated value as one argv element; leading dashes would be read as flags. */
+function argvValue(field: string, value: unknown): string {
+  const text = Array.isArray(value) ? value.join(',') : String(value);
+  if (text.startsWith('-')) {
+    throw new Error(`Invalid '${field}': must not start with '-'`);
+  }
+  return text;
+}
+
+function parseDefinition(raw: unknown, index: number): ToolSpec {
+  const entry = asRecord(raw);
+  const name = entry?.name;
+  if (typeof name !== 'string' || !TOOL_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid custom tool at index ${index}: name must match ${TOOL_NAME_PATTERN.source}`);
+  }
+
+  const description = entry!.description;
+  if (typeof description !== 'string' || description.trim().length === 0) fail(name, 'description is required');
+  if (typeof entry!.mutating !== 'boolean') fail(name, 'mutating must be true or false');
+  const mutating = entry!.mutating;
+
+  let category: ToolCategory | undefined;
+  if (entry!.category !== undefined) {
+    if (!CATEGORIES.includes(entry!.category as ToolCategory)) fail(name, `category must be one of ${CATEGORIES.join('|')}`);
+    category = entry!.category as ToolCategory;
+    if ((category === 'mutating') !== mutating) fail(name, "category 'mutating' must match mutating: true");
+  }
+
+  const schema = asRecord(entry!.inputSchema) ?? { type: 'object' };
+  if (schema.type !== 'object') fail(name, 'inputSchema.type must be object');
+  const properties = parseProperties(name, schema);
+  const requiredList = schema.required ?? [];
+  if (!Array.isArray(requiredList) || !requiredList.every((field) => typeof field === 'string' && properties.has(field))) {
+    fail(name, 'inputSchema.required must list declared properties');
+  }
+  const required = new Set(requiredList as string[]);
+
+  const argvParts = parseArgv(name, entry!.argv, properties, required);
+  const command = argvParts.slice(0, 2).map((part) => (part.kind === 'literal' ? part.value : '')).join(' ');
+  const builtIn = BUILT_IN_COMMANDS.get(command);
+  if (builtIn) fail(name, `'${command}' is only available through the built-in ${builtIn} tool`);
+  if (MUTATING_COMMANDS.has(command) && !mutating) fail(name, `'${command}' must be declared mutating: true`);
+  const guardTemplates = parseGuardArgs(name, entry!.guardArgs, properties);
+
+  const inputSchema: ToolSchema = {
+    type: 'object',
+    properties: asRecord(schema.properties) ?? {},
+    ...(required.size > 0 ? { required: [...required] } : {}),
+    additionalProperties: false,
+  };
+
+  return {
+    name,
+    description: description.trim(),
+    mutating,
+    category,
+    inputSchema,
+    build(args): CommandBuildResult {
+      for (const key of Object.keys(args)) {
+        if (!properties.has(key)) throw new Error(`Unexpected argument '${key}'`);
+      }
+
+      const values = new Map<string, unknown>();
+      for (const [field, def] of properties) {
+        const value = args[field];
+        if (value === undefined || value === null) {
+          if (required.has(field)) throw new Error(`Invalid '${field}': required`);
+          continue;
+        }
+        values.set(field, coerceArgument(field, def, value));
+      }
+
+      const argv: string[] = [];
+      for (const part of argvParts) {
+        if (part.kind === 'literal') {
+          argv.push(part.value);
+        } else if (part.kind === 'positional') {
+          argv.push(argvValue(part.field, values.get(part.field)));
+        } else if (part.kind === 'option') {
+          if (values.has(part.field)) argv.push(part.flag, argvValue(part.field, values.get(part.field)));
+        } else if (values.get(part.field) === true) {
+          argv.push(part.flag);
+        }
+      }
+
+      const guardArgs: Record<string, unknown> = {};
+      for (const [key, template] of guardTemplates) {
+        if (template.kind === 'constant') {
+          guardArgs[key] = template.value;
+        } else if (template.kind === 'field') {
+          guardArgs[key] = values.get(template.field);
+        } else if (template.fields.every((field) => values.has(field))) {
+          const result = evaluateExpression(template.tokens, (field) => values.get(field) as number);
+          guardArgs[key] = result !== undefined && Number.isFinite(result) ? Number(result.toFixed(8)) : undefined;
+        }
+      }
+
+      return { argv, guardArgs };
+    },
+  };
+}
+
+/**
+ * Reads the custom tool file. A missing file means no custom tools; any invalid
+ * entry fails the whole load so a typo never silently drops a guarded tool.
+ */
+export function loadCustomTools(path: string): ToolSpec[] {
+  if (!existsSync(path)) return [];
+
+  const parsed = parseYaml(readFileSync(path, 'utf-8')) as unknown;
+  if (parsed === null || parsed === undefined) return [];
+
+  const entries = asRecord(parsed)?.tools;
+  if (!Array.isArray(entries)) {
+    throw new Error(`Invalid custom tools file '${path}': expected a top-level 'tools' list`);
+  }
+
+  return entries.map((entry, index) => parseDefinition(entry, index));
+}
+
+/** Appends custom tools after the built-ins, refusing to shadow any existing name. */
+export function mergeToolSpecs(builtIn: ToolSpec[], custom: ToolSpec[]): ToolSpec[] {
+  const names = new Set(builtIn.map((tool) => tool.name));
+  for (const tool of custom) {
+    if (names.has(tool.name)) {
+      throw new Error(`Invalid custom tool '${tool.name}': name is already defined`);
+    }
+    names.add(tool.name);
+  }
+  return [...builtIn, ...custom];
+}
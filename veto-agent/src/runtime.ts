@@ -2,9 +2,38 @@ import { existsSync, readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { Veto } from 'veto-sdk';
 import { parse as parseYaml } from 'yaml';
+import { pageRows, parseBook } from './analytics.js';
 import { resolvePolymarketBinary, type BinaryResolution } from './binary.js';
+import { budgetTools, describeLimit, SpendLedger, type SpendRequest } from './budget.js';
+import {
+  bookContext,
+  CONTEXT_SOURCES,
+  emptyContext,
+  gammaContext,
+  marketContext,
+  type ContextSource,
+} from './context.js';
 import { executePolymarket } from './executor.js';
-import { getToolSpec, listTools, profileAgentId, type ToolSpec } from './tools.js';
+import {
+  EXPOSURE_FIELDS,
+  exposureFields,
+  MARKET_EXPOSURE_FIELDS,
+  parseOpenOrders,
+  parsePortfolioValue,
+  parsePositions,
+  walletAddress,
+  type ExposureSnapshot,
+  type ExposureTarget,
+} from './exposure.js';
+import { callFingerprint, IDEMPOTENCY_KEY_PATTERN, IdempotencyError, IdempotencyStore } from './idempotency.js';
+import { resolveOutcome, type OutcomeResolution } from './outcomes.js';
+import { PaperLedger, paperTools, type PaperOrder } from './paper.js';
+import { evaluateOrder, parseMarketMetadata, type MarketMetadata, type PreflightOrder } from './preflight.js';
+import { RateLimiter, type RateLimitCharge, type RateLimitConfig } from './ratelimit.js';
+import { loadCustomTools, mergeToolSpecs } from './registry.js';
+import { validateSchema, type SchemaIssue } from './schema.js';
+import { simulateOrder, type SimulatedOrder, type SimulatedOrderType, type SimulationFill } from './simulation.js';
+import { listTools, profileAgentId, toolCategory, type CommandBuildResult, type ToolSpec } from './tools.js';
 import type {
   ExecutionResult,
   McpToolResult,
@@ -12,13 +41,18 @@ import type {
   RuntimeDecision,
   RuntimeErrorShape,
 } from './types.js';
+import { asRecord, round, toNumber } from './values.js';
 
 interface GuardClient {
   guard(toolName: string, args: Record<string, unknown>, context: { sessionId: string; agentId: string }): Promise<RuntimeDecision>;
 }
 
 interface RuntimeDependencies {
-  execute?: (binaryPath: string, argv: string[], opts: { timeoutMs: number; maxOutputBytes: number }) => Promise<ExecutionResult>;
+  execute?: (
+    binaryPath: string,
+    argv: string[],
+    opts: { timeoutMs: number; maxOutputBytes: number; redact?: boolean; onSpawn?: () => void },
+  ) => Promise<ExecutionResult>;
   guard?: GuardClient;
   waitForApproval?: (approvalId: string) => Promise<ApprovalResolution>;
 }
@@ -33,6 +67,42 @@ interface LiveState {
   reason?: string;
 }
 
+export interface PaperPollReport {
+  expired: PaperOrder[];
+  filled: PaperOrder[];
+  warnings: string[];
+}
+
+/** A simulated order against a fresh book, or why the book could not be read. */
+type BookSimulation =
+  | { head: SimulationHead; market: string | null; fill: SimulationFill; feeWarning?: string }
+  | { head: SimulationHead; warning: string };
+
+interface SimulationHead {
+  token: string;
+  side: SimulatedOrder['side'];
+  orderType: SimulatedOrderType;
+}
+
+interface PreflightOutcome {
+  built: CommandBuildResult;
+  report: Record<string, unknown>;
+  payloads: Map<string, MarketPayloads>;
+}
+
+/** Raw `clob book` and `clob market` output read by preflight, reused by context and simulation. */
+interface MarketPayloads {
+  book: unknown;
+  market: unknown;
+}
+
+/** Order tools whose token is preflighted and enriched with market context before guard evaluation. */
+const ORDER_TOOLS = new Set(['order_create_limit', 'order_batch_limit', 'order_market']);
+
+const CONDITION_ID_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+const WALLET_ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const MARKET_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
 interface ResolvedBinaryState extends BinaryResolution {
   available: boolean;
 }
@@ -46,23 +116,81 @@ class RuntimeError extends Error {
   }
 }
 
+/** A wallet lookup for exposure failed; handled according to `exposure.onFailure`. */
+class ExposureLookupError extends Error {}
+
 function jsonText(value: unknown): string {
   return JSON.stringify(value, null, 2);
 }
 
-function asNumber(value: unknown): number | null {
-  if (typeof value === 'number' && Number.isFinite(value)) return value;
-  if (typeof value === 'string' && value.trim().length > 0) {
-    const parsed = Number(value);
-    return Number.isFinite(parsed) ? parsed : null;
+/** Page cap for `clob orders` when totalling open-order exposure. */
+const EXPOSURE_MAX_ORDER_PAGES = 20;
+const END_CURSOR = 'LTE=';
+const CURSOR_PATTERN = /^[A-Za-z0-9+/=]+$/;
+
+/** Non-order tools whose `amount_usd` is USDC paid out of the wallet. */
+const SPEND_TOOLS = new Set(['ctf_split']);
+
+/**
+ * Spend a live call adds to the budgets: one entry per batch leg, otherwise one
+ * for the tool's `amount_usd`. Only buys and `SPEND_TOOLS` count, so sells and
+ * merges that reduce risk still go through once a cap is reached. Markets are
+ * keyed by condition id when preflight or the tool supplies one, else by token.
+ */
+function spendRequests(toolName: string, guardArgs: Record<string, unknown>): SpendRequest[] {
+  if (guardArgs.side !== 'buy' && !SPEND_TOOLS.has(toolName)) return [];
+
+  const marketOf = (args: Record<string, unknown>): string | null => (
+    optionalString(args.condition_id) ?? optionalString(args.condition) ?? optionalString(args.token) ?? null
+  );
+
+  if (Array.isArray(guardArgs.legs)) {
+    return (guardArgs.legs as Array<Record<string, unknown>>).flatMap((leg) => {
+      const amountUsd = toNumber(leg.amount_usd);
+      return amountUsd !== null && amountUsd > 0 ? [{ tool: toolName, market: marketOf(leg), amountUsd }] : [];
+    });
   }
-  return null;
+
+  const amountUsd = toNumber(guardArgs.amount_usd);
+  return amountUsd !== null && amountUsd > 0 ? [{ tool: toolName, market: marketOf(guardArgs), amountUsd }] : [];
 }
 
-function extractMidpoint(value: unknown): number | null {
-  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
-  const row = value as Record<string, unknown>;
-  return asNumber(row.midpoint) ?? asNumber(row.mid) ?? asNumber(row.price) ?? null;
+/** Cancel tools that close open paper orders when run in simulation. */
+const PAPER_CANCEL_TOOLS = new Set(['order_cancel', 'order_cancel_orders', 'order_cancel_market', 'order_cancel_all']);
+
+/** Maps order tool guard args to engine orders; CLI defaults are GTC for limit and FOK for market orders. */
+function simulatedOrders(toolName: string, guardArgs: Record<string, unknown>): SimulatedOrder[] {
+  const side = guardArgs.side as SimulatedOrder['side'];
+  const orderType = typeof guardArgs.orderType === 'string' ? guardArgs.orderType as SimulatedOrderType : undefined;
+
+  switch (toolName) {
+    case 'order_market':
+      return [{
+        token: String(guardArgs.token),
+        side,
+        orderType: orderType ?? 'FOK',
+        amount: toNumber(guardArgs.amount) ?? 0,
+      }];
+    case 'order_create_limit':
+      return [{
+        token: String(guardArgs.token),
+        side,
+        orderType: orderType ?? 'GTC',
+        price: toNumber(guardArgs.price) ?? 0,
+        size: toNumber(guardArgs.size) ?? 0,
+        postOnly: guardArgs.postOnly === true,
+      }];
+    case 'order_batch_limit':
+      return (guardArgs.legs as Array<Record<string, unknown>>).map((leg) => ({
+        token: String(leg.token),
+        side,
+        orderType: orderType ?? 'GTC',
+        price: toNumber(leg.price) ?? 0,
+        size: toNumber(leg.size) ?? 0,
+      }));
+    default:
+      return [];
+  }
 }
 
 export class PolymarketVetoRuntime {
@@ -72,6 +200,15 @@ export class PolymarketVetoRuntime {
   private readonly guard: GuardClient;
   private readonly waitForApproval: NonNullable<RuntimeDependencies['waitForApproval']>;
   private readonly binary: ResolvedBinaryState;
+  private readonly customToolsPath: string;
+  private readonly customToolNames: string[];
+  private readonly tools: Map<string, ToolSpec>;
+  private readonly paper: PaperLedger | null;
+  private readonly budget: SpendLedger | null;
+  private readonly idempotency: IdempotencyStore | null;
+  private readonly rateLimiter = new RateLimiter();
+  private paperPolling: Promise<PaperPollReport> | null = null;
+  private paperTimer: NodeJS.Timeout | null = null;
 
   private constructor(
     private readonly resolved: ResolvedConfig,
@@ -83,6 +220,36 @@ export class PolymarketVetoRuntime {
     this.guard = deps.guard as GuardClient;
     this.waitForApproval = deps.waitForApproval ?? ((approvalId) => this.waitForApprovalFromCloud(approvalId));
 
+    this.customToolsPath = resolve(this.resolved.baseDir, this.resolved.config.customTools.path);
+    const customTools = loadCustomTools(this.customToolsPath);
+    this.customToolNames = customTools.map((tool) => tool.name);
+    const paper = this.resolved.config.paper;
+    this.paper = paper.enabled
+      ? new PaperLedger(resolve(this.resolved.baseDir, paper.path), {
+        startingCashUsd: paper.startingCashUsd,
+        gtdTtlSeconds: paper.gtdTtlSeconds,
+      })
+      : null;
+    const budgets = this.resolved.config.budgets;
+    this.budget = budgets.enabled ? new SpendLedger(resolve(this.resolved.baseDir, budgets.path), budgets.limits) : null;
+    const idempotency = this.resolved.config.idempotency;
+    this.idempotency = idempotency.enabled ? new IdempotencyStore(resolve(this.resolved.baseDir, idempotency.path)) : null;
+    const builtIn = [
+      ...listTools(),
+      ...(this.paper ? paperTools(this.paper) : []),
+      ...(this.budget ? budgetTools(this.budget) : []),
+    ];
+    this.tools = new Map(mergeToolSpecs(builtIn, customTools).map((tool) => [tool.name, tool]));
+    // Config loading cannot see custom tools, so misspelled tool caps are caught here.
+    for (const name of Object.keys(this.resolved.config.rateLimits.tools)) {
+      if (!this.tools.has(name)) throw new Error(`Invalid rateLimits.tools.${name}: no such tool`);
+    }
+    this.resolved.config.budgets.limits.forEach((limit, index) => {
+      if (limit.tool !== undefined && !this.tools.has(limit.tool)) {
+        throw new Error(`Invalid budgets.limits[${index}].tool: no such tool '${limit.tool}'`);
+      }
+    });
+
     if (deps.execute) {
       this.binary = {
         requestedPath: this.resolved.config.polymarket.binaryPath,
@@ -141,15 +308,37 @@ export class PolymarketVetoRuntime {
       binaryResolvedPath: this.binary.resolvedPath,
       binarySource: this.binary.source,
       binaryAvailable: this.binary.available,
+      customToolsPath: this.customToolsPath,
+      customTools: this.customToolNames,
+      paperLedgerPath: this.paper?.path ?? null,
+      spendLedgerPath: this.budget?.path ?? null,
+      idempotencyStorePath: this.idempotency?.path ?? null,
     };
   }
 
+  /** Mutating tools advertise the optional `idempotencyKey` that `callTool` strips before validation. */
   listMcpTools(): Array<{ name: string; description: string; inputSchema: Record<string, unknown> }> {
-    return listTools().map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema as unknown as Record<string, unknown>,
-    }));
+    return [...this.tools.values()].map((tool) => {
+      const inputSchema = tool.inputSchema as unknown as Record<string, unknown>;
+      if (!tool.mutating || !this.idempotency) {
+        return { name: tool.name, description: tool.description, inputSchema };
+      }
+
+      return {
+        name: tool.name,
+        description: tool.description,
+        inputSchema: {
+          ...inputSchema,
+          properties: {
+            ...(inputSchema.properties as Record<string, unknown> | undefined),
+            idempotencyKey: {
+              type: 'string',
+              description: 'Retries with the same key return the first result instead of running again.',
+            },
+          },
+        },
+      };
+    });
   }
 
   private binaryFixes(): string[] {
@@ -226,12 +415,16 @@ export class PolymarketVetoRuntime {
         profile: this.resolved.config.veto.policyProfile,
         agentId: this.agentId,
       },
+      rateLimits: {
+        ...this.resolved.config.rateLimits,
+        buckets: this.rateLimiter.snapshot(),
+      },
       runtime: this.getStartupInfo(),
     };
   }
 
   async callTool(toolName: string, args: Record<string, unknown>, simulationOverride?: boolean): Promise<McpToolResult> {
-    const spec = getToolSpec(toolName);
+    const spec = this.tools.get(toolName);
     if (!spec) {
       throw new RuntimeError({
         code: -32601,
@@ -239,22 +432,114 @@ export class PolymarketVetoRuntime {
       });
     }
 
-    let built;
+    if (!spec.mutating || !this.idempotency) {
+      return this.invoke(spec, args, simulationOverride);
+    }
+    return this.invokeOnce(spec, args, simulationOverride);
+  }
+
+  /**
+   * Deduplicates a mutating call by its `idempotencyKey`, or else by a content
+   * fingerprint within `idempotency.windowSeconds`. Reusing a key for other
+   * arguments fails with -32602. A live call whose command was sent but did not
+   * complete, because it failed, timed out or the process crashed, fails with
+   * -32005 rather than risk placing the order twice.
+   */
+  private async invokeOnce(spec: ToolSpec, args: Record<string, unknown>, simulationOverride?: boolean): Promise<McpToolResult> {
+    const { idempotencyKey, ...rest } = args;
+    if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || !IDEMPOTENCY_KEY_PATTERN.test(idempotencyKey))) {
+      throw new RuntimeError({
+        code: -32602,
+        message: 'idempotencyKey must be 1-128 characters of letters, digits, ., _, : or -',
+      });
+    }
+
+    const config = this.resolved.config.idempotency;
+    const live = !this.resolveLiveState(spec, simulationOverride).simulation;
+    const fingerprint = callFingerprint(spec.name, rest, live);
+    const call = idempotencyKey === undefined
+      ? { key: `fp:${fingerprint}`, ttlMs: config.windowSeconds * 1000 }
+      : { key: `key:${idempotencyKey}`, ttlMs: config.keyTtlSeconds * 1000 };
+
     try {
-      built = spec.build(args);
+      return await this.idempotency!.run(
+        { ...call, fingerprint, tool: spec.name, persist: live },
+        (sent) => this.invoke(spec, rest, simulationOverride, sent),
+      );
     } catch (error) {
+      if (!(error instanceof IdempotencyError)) throw error;
+      throw new RuntimeError({
+        code: error.reason === 'conflict' ? -32602 : -32005,
+        message: `Duplicate call: ${error.message}`,
+        data: {
+          idempotencyKey: idempotencyKey ?? null,
+          tool: error.record.tool,
+          startedAt: error.record.startedAt,
+        },
+      });
+    }
+  }
+
+  /** `sent` is called once a live command has spawned; from then on a failure leaves the order's fate unknown. */
+  private async invoke(
+    spec: ToolSpec,
+    args: Record<string, unknown>,
+    simulationOverride?: boolean,
+    sent?: () => void,
+  ): Promise<McpToolResult> {
+    const issues = validateSchema(spec.inputSchema, args);
+    if (issues.length > 0) {
       throw new RuntimeError({
         code: -32602,
-        message: error instanceof Error ? error.message : 'Invalid tool arguments',
+        message: issues.map((issue) => issue.message).join('; '),
+        data: {
+          errors: issues,
+        },
       });
     }
 
+    this.throttle(spec, args);
+
+    let resolution: OutcomeResolution | undefined;
+    if (spec.resolveOutcome && (args.market !== undefined || args.outcome !== undefined)) {
+      resolution = await this.resolveOutcomeToken(args);
+      args = { ...args, token: resolution.token };
+    }
+
+    let built = this.buildCommand(spec, args);
+
+    let preflight: Record<string, unknown> | undefined;
+    let payloads = new Map<string, MarketPayloads>();
+    if (this.resolved.config.preflight.enabled && ORDER_TOOLS.has(spec.name)) {
+      const outcome = await this.preflightOrder(spec, args, built);
+      built = outcome.built;
+      preflight = outcome.report;
+      payloads = outcome.payloads;
+    }
+
+    // After preflight, whose tick snapping rebuilds the guard args from the tool's own fields.
+    if (resolution) {
+      built = {
+        ...built,
+        guardArgs: { ...built.guardArgs, question: resolution.question, outcome_label: resolution.outcomeLabel },
+      };
+    }
+
+    if (ORDER_TOOLS.has(spec.name) && CONTEXT_SOURCES.some((source) => this.resolved.config.context[source].enabled)) {
+      built = await this.enrichGuardArgs(spec, built, payloads);
+    }
+
+    if (ORDER_TOOLS.has(spec.name) && this.resolved.config.exposure.enabled) {
+      built = await this.addExposure(spec, built);
+    }
+
     const guardArgs = {
       ...built.guardArgs,
+      tool_category: toolCategory(spec),
       timestamp: new Date().toISOString(),
     };
 
-    const decision = await this.guard.guard(toolName, guardArgs, {
+    const decision = await this.guard.guard(spec.name, guardArgs, {
       sessionId: this.sessionId,
       agentId: this.agentId,
     });
@@ -319,7 +604,9 @@ export class PolymarketVetoRuntime {
     const liveState = this.resolveLiveState(spec, simulationOverride);
 
     if (spec.mutating && liveState.simulation) {
-      const simulation = await this.simulate(spec, built, binaryPath, liveState.reason);
+      const simulation = await this.simulate(spec, built, binaryPath, liveState.reason, payloads);
+      if (resolution) simulation.resolvedOutcome = resolution;
+      if (preflight) simulation.preflight = preflight;
       return {
         content: [{
           type: 'text',
@@ -328,12 +615,481 @@ export class PolymarketVetoRuntime {
       };
     }
 
+    const reservation = spec.mutating ? this.reserveBudget(spec.name, built.guardArgs) : [];
+    let started = false;
+    const onSpawn = (): void => {
+      started = true;
+      sent?.();
+    };
+    try {
+      return await this.executeLive(spec, built, binaryPath, onSpawn, resolution, preflight);
+    } catch (error) {
+      // A command that started may have placed the order, so its spend stays reserved.
+      if (!started && reservation.length > 0) this.budget!.release(reservation);
+      throw error;
+    }
+  }
+
+  private async executeLive(
+    spec: ToolSpec,
+    built: CommandBuildResult,
+    binaryPath: string,
+    onSpawn: () => void,
+    resolution?: OutcomeResolution,
+    preflight?: Record<string, unknown>,
+  ): Promise<McpToolResult> {
+    if (built.compose) {
+      const commands: string[] = [];
+      const output = await built.compose(async (argv) => {
+        const execution = await this.runCommand(binaryPath, argv, spec.redactOutput !== false, onSpawn);
+        commands.push(execution.commandPreview);
+        return execution.parsed;
+      });
+
+      return {
+        content: [{
+          type: 'text',
+          text: jsonText({
+            live: spec.mutating,
+            tool: spec.name,
+            commands,
+            output,
+          }),
+        }],
+      };
+    }
+
+    const execution = await this.runCommand(binaryPath, built.argv, spec.redactOutput !== false, onSpawn);
+
+    return {
+      content: [{
+        type: 'text',
+        text: jsonText({
+          live: spec.mutating,
+          tool: spec.name,
+          command: execution.commandPreview,
+          ...(resolution ? { resolvedOutcome: resolution } : {}),
+          ...(preflight ? { preflight } : {}),
+          output: built.transform ? built.transform(execution.parsed) : execution.parsed,
+        }),
+      }],
+    };
+  }
+
+  /**
+   * Checks live spend against the persisted budgets and records it before the
+   * command runs. Over-budget calls are denied with -32001 and the exceeded
+   * limits in `data.budget`.
+   */
+  private reserveBudget(toolName: string, guardArgs: Record<string, unknown>): string[] {
+    const requests = this.budget ? spendRequests(toolName, guardArgs) : [];
+    if (requests.length === 0) return [];
+
+    const violations = this.budget!.check(requests);
+    if (violations.length > 0) {
+      const first = violations[0]!;
+      throw new RuntimeError({
+        code: -32001,
+        message: `Denied by budget: ${describeLimit(first, first.key)} exceeded (used ${first.usedUsd}, requested ${first.requestedUsd})`,
+        data: { budget: violations },
+      });
+    }
+    return this.budget!.reserve(requests);
+  }
+
+  /**
+   * Applies the configured token buckets before any lookup runs, so a looping
+   * agent is stopped cheaply. Rejections use -32004 with `data.retryAfterMs`.
+   */
+  private throttle(spec: ToolSpec, args: Record<string, unknown>): void {
+    const limits = this.resolved.config.rateLimits;
+    if (!limits.enabled) return;
+
+    const profile = this.resolved.config.veto.policyProfile;
+    const charges: RateLimitCharge[] = [];
+    const add = (key: string, limit: RateLimitConfig | undefined, cost = 1): void => {
+      if (limit) charges.push({ key, limit, cost });
+    };
+    add(`tool:${spec.name}`, limits.tools[spec.name]);
+    add(`class:${spec.mutating ? 'mutating' : 'read'}`, limits.classes[spec.mutating ? 'mutating' : 'read']);
+    add(`profile:${profile}`, limits.profiles[profile]);
+    if (ORDER_TOOLS.has(spec.name) && limits.ordersPerMinute !== null) {
+      const orders = Array.isArray(args.legs) ? args.legs.length : 1;
+      add('orders', { perMinute: limits.ordersPerMinute, burst: limits.ordersPerMinute }, orders);
+    }
+
+    const rejection = this.rateLimiter.acquire(charges);
+    if (!rejection) return;
+
+    const { key, limit, cost, retryAfterMs } = rejection;
+    throw new RuntimeError({
+      code: -32004,
+      message: retryAfterMs === null
+        ? `Rate limited: ${spec.name} needs ${cost} from '${key}', which allows at most ${limit.burst} at once`
+        : `Rate limited: '${key}' allows ${limit.perMinute} per minute; retry after ${Math.ceil(retryAfterMs / 1000)}s`,
+      data: { limit: key, perMinute: limit.perMinute, burst: limit.burst, retryAfterMs },
+    });
+  }
+
+  private buildCommand(spec: ToolSpec, args: Record<string, unknown>): CommandBuildResult {
+    try {
+      return spec.build(args);
+    } catch (error) {
+      throw new RuntimeError({
+        code: -32602,
+        message: error instanceof Error ? error.message : 'Invalid tool arguments',
+      });
+    }
+  }
+
+  /** Turns `{ market, outcome }` into a CLOB token id via `markets get`. */
+  private async resolveOutcomeToken(args: Record<string, unknown>): Promise<OutcomeResolution> {
+    if (args.token !== undefined) {
+      throw new RuntimeError({
+        code: -32602,
+        message: "Pass either 'token' or 'market' with 'outcome', not both",
+      });
+    }
+    if (typeof args.market !== 'string' || typeof args.outcome !== 'string') {
+      throw new RuntimeError({
+        code: -32602,
+        message: "Invalid arguments: 'market' and 'outcome' must be given together",
+      });
+    }
+
+    const binaryPath = this.requireBinaryPath();
+    let payload: unknown;
+    try {
+      payload = (await this.runCommand(binaryPath, ['markets', 'get', args.market], false)).parsed;
+    } catch (error) {
+      if (!(error instanceof RuntimeError)) throw error;
+      throw new RuntimeError({
+        ...error.shape,
+        message: `Market lookup failed for '${args.market}': ${error.shape.message}`,
+      });
+    }
+
+    try {
+      return resolveOutcome(args.market, args.outcome, payload);
+    } catch (error) {
+      throw new RuntimeError({
+        code: -32602,
+        message: error instanceof Error ? error.message : 'Outcome resolution failed',
+      });
+    }
+  }
+
+  /**
+   * Checks every order token against live tick size, neg-risk, accepting_orders,
+   * minimum size and end date. Violations reject with -32602; off-tick prices
+   * are snapped instead when `preflight.snapToTick` is set, and the command is
+   * rebuilt from the adjusted arguments. The metadata is merged into guard args.
+   */
+  private async preflightOrder(
+    spec: ToolSpec,
+    args: Record<string, unknown>,
+    built: CommandBuildResult,
+  ): Promise<PreflightOutcome> {
+    const binaryPath = this.requireBinaryPath();
+    const batch = spec.name === 'order_batch_limit';
+    const legs = batch ? built.guardArgs.legs as Array<Record<string, unknown>> : [built.guardArgs];
+    const orders: PreflightOrder[] = legs.map((leg) => ({
+      token: String(leg.token),
+      side: (batch ? built.guardArgs.side : leg.side) as PreflightOrder['side'],
+      price: toNumber(leg.price) ?? undefined,
+      size: toNumber(leg.size) ?? undefined,
+    }));
+
+    const metadata = new Map<string, MarketMetadata>();
+    const payloads = new Map<string, MarketPayloads>();
+    for (const token of new Set(orders.map((order) => order.token))) {
+      const fetched = await this.fetchMarketMetadata(binaryPath, token);
+      metadata.set(token, fetched.metadata);
+      payloads.set(token, fetched.payloads);
+    }
+
+    const options = { snapToTick: this.resolved.config.preflight.snapToTick };
+    const results = orders.map((order, index) => (
+      evaluateOrder(order, metadata.get(order.token)!, options, batch ? `legs[${index}].` : '')
+    ));
+
+    const errors: SchemaIssue[] = results.flatMap((result) => result.errors);
+    if (errors.length > 0) {
+      throw new RuntimeError({
+        code: -32602,
+        message: `Order preflight failed: ${errors.map((issue) => issue.message).join('; ')}`,
+        data: {
+          errors,
+          markets: [...metadata.values()],
+        },
+      });
+    }
+
+    const adjustments = results.flatMap((result, index) => (
+      result.snapped ? [{ index, from: orders[index]!.price, to: result.price }] : []
+    ));
+
+    let next = built;
+    if (adjustments.length > 0) {
+      const adjusted = batch
+        ? { ...args, legs: (args.legs as Array<Record<string, unknown>>).map((leg, index) => ({ ...leg, price: results[index]!.price })) }
+        : { ...args, price: results[0]!.price };
+      next = this.buildCommand(spec, adjusted);
+    }
+
+    const guardArgs = batch
+      ? {
+        ...next.guardArgs,
+        legs: (next.guardArgs.legs as Array<Record<string, unknown>>).map((leg, index) => ({ ...leg, ...results[index]!.guardFields })),
+        neg_risk_any: results.some((result) => result.guardFields.neg_risk === true),
+      }
+      : { ...next.guardArgs, ...results[0]!.guardFields };
+
+    return {
+      built: { ...next, guardArgs },
+      report: {
+        markets: [...metadata.values()],
+        ...(adjustments.length > 0 ? { snappedPrices: adjustments } : {}),
+      },
+      payloads,
+    };
+  }
+
+  private async fetchMarketMetadata(
+    binaryPath: string,
+    token: string,
+  ): Promise<{ metadata: MarketMetadata; payloads: MarketPayloads }> {
+    const read = async (argv: string[]): Promise<unknown> => {
+      try {
+        return (await this.runCommand(binaryPath, argv, false)).parsed;
+      } catch (error) {
+        if (!(error instanceof RuntimeError)) throw error;
+        throw new RuntimeError({
+          ...error.shape,
+          message: `Order preflight failed for token ${token}: ${error.shape.message}`,
+        });
+      }
+    };
+
+    const tickSize = await read(['clob', 'tick-size', token]);
+    const negRisk = await read(['clob', 'neg-risk', token]);
+    const book = await read(['clob', 'book', token]);
+
+    // The condition id comes from CLI output, so it is re-validated before it
+    // is placed back into an argv.
+    const conditionId = parseMarketMetadata(token, tickSize, negRisk, book, null).conditionId;
+    const market = conditionId && CONDITION_ID_PATTERN.test(conditionId)
+      ? await read(['clob', 'market', conditionId])
+      : null;
+
+    return {
+      metadata: parseMarketMetadata(token, tickSize, negRisk, book, market),
+      payloads: { book, market },
+    };
+  }
+
+  /**
+   * Adds market context to order guard args, per leg for batches. Fields the
+   * tool or preflight already set are kept. Sources that fail either leave
+   * their fields null and are listed in `context_unavailable`, or reject the
+   * call, depending on their `onFailure` setting.
+   */
+  private async enrichGuardArgs(
+    spec: ToolSpec,
+    built: CommandBuildResult,
+    payloads: Map<string, MarketPayloads>,
+  ): Promise<CommandBuildResult> {
+    const binaryPath = this.requireBinaryPath();
+    const batch = spec.name === 'order_batch_limit';
+    const legs = batch ? built.guardArgs.legs as Array<Record<string, unknown>> : [built.guardArgs];
+
+    const contexts = new Map<string, Record<string, unknown>>();
+    for (const token of new Set(legs.map((leg) => String(leg.token)))) {
+      contexts.set(token, await this.fetchMarketContext(binaryPath, token, payloads.get(token)));
+    }
+
+    const enrich = (leg: Record<string, unknown>): Record<string, unknown> => ({ ...contexts.get(String(leg.token)), ...leg });
+    return {
+      ...built,
+      guardArgs: batch ? { ...built.guardArgs, legs: legs.map(enrich) } : enrich(built.guardArgs),
+    };
+  }
+
+  /**
+   * The book is read whenever any source is enabled, because it carries the
+   * condition id for `clob market`, which in turn carries the slug for gamma.
+   * Payloads preflight already read are used instead of looking them up again.
+   */
+  private async fetchMarketContext(
+    binaryPath: string,
+    token: string,
+    cached?: MarketPayloads,
+  ): Promise<Record<string, unknown>> {
+    const sources = this.resolved.config.context;
+    const fields: Record<string, unknown> = {};
+    const unavailable: ContextSource[] = [];
+
+    const apply = (source: ContextSource, lookup: { parsed?: unknown; warning?: string }, parse: (parsed: unknown) => Record<string, unknown>): void => {
+      if (!sources[source].enabled) return;
+      if (lookup.warning === undefined) {
+        Object.assign(fields, parse(lookup.parsed));
+        return;
+      }
+      if (sources[source].onFailure === 'reject') {
+        throw new RuntimeError({
+          code: -32003,
+          message: `Market context lookup failed for token ${token} (${source}): ${lookup.warning}`,
+          data: { token, source },
+        });
+      }
+      Object.assign(fields, emptyContext(source));
+      unavailable.push(source);
+    };
+
+    const book = cached
+      ? { parsed: cached.book }
+      : await this.lookup(binaryPath, ['clob', 'book', token], sources.book.timeoutMs);
+    apply('book', book, (parsed) => bookContext(parseBook(parsed)));
+
+    if (sources.market.enabled || sources.gamma.enabled) {
+      // Ids read from CLI output are re-validated before they go back into an argv.
+      const conditionId = optionalString(asRecord(book.parsed).market);
+      const market = book.warning !== undefined
+        ? { warning: `book lookup failed: ${book.warning}` }
+        : cached?.market
+          ? { parsed: cached.market }
+          : conditionId && CONDITION_ID_PATTERN.test(conditionId)
+          ? await this.lookup(binaryPath, ['clob', 'market', conditionId], sources.market.timeoutMs)
+          : { warning: 'book has no condition id' };
+      apply('market', market, (parsed) => marketContext(parsed));
+
+      if (sources.gamma.enabled) {
+        const slug = market.warning === undefined ? optionalString(asRecord(market.parsed).market_slug) : undefined;
+        const gamma = market.warning !== undefined
+          ? { warning: `market lookup failed: ${market.warning}` }
+          : slug && MARKET_SLUG_PATTERN.test(slug)
+            ? await this.lookup(binaryPath, ['markets', 'get', slug], sources.gamma.timeoutMs)
+            : { warning: 'market has no slug' };
+        apply('gamma', gamma, gammaContext);
+      }
+    }
+
+    return { ...fields, context_unavailable: unavailable };
+  }
+
+  /**
+   * Adds wallet exposure to order guard args. Batches carry portfolio totals at
+   * the top level and per-market figures on each leg, where the post-trade
+   * market figure counts every leg in the same market. A failed lookup leaves
+   * the fields null with `exposure_unavailable`, or rejects the call when
+   * `exposure.onFailure` is `reject`.
+   */
+  private async addExposure(spec: ToolSpec, built: CommandBuildResult): Promise<CommandBuildResult> {
+    const binaryPath = this.requireBinaryPath();
+    const batch = spec.name === 'order_batch_limit';
+    const side = built.guardArgs.side as ExposureTarget['side'];
+    const legs = batch ? built.guardArgs.legs as Array<Record<string, unknown>> : [built.guardArgs];
+
+    let snapshot: ExposureSnapshot;
+    const conditionIds: Array<string | null> = [];
+    try {
+      snapshot = await this.fetchExposure(binaryPath);
+      for (const leg of legs) conditionIds.push(await this.conditionIdFor(binaryPath, leg));
+    } catch (error) {
+      if (!(error instanceof ExposureLookupError)) throw error;
+      if (this.resolved.config.exposure.onFailure === 'reject') {
+        throw new RuntimeError({
+          code: -32003,
+          message: `Exposure lookup failed: ${error.message}`,
+        });
+      }
+      const empty = Object.fromEntries(EXPOSURE_FIELDS.map((field) => [field, null]));
+      return { ...built, guardArgs: { ...built.guardArgs, ...empty, exposure_unavailable: true } };
+    }
+
+    const amountIn = (conditionId: string | null): number => legs.reduce((total, leg, index) => (
+      conditionIds[index] === conditionId ? total + (toNumber(leg.amount_usd) ?? 0) : total
+    ), 0);
+
+    if (!batch) {
+      const fields = exposureFields(snapshot, { conditionId: conditionIds[0]!, side, amountUsd: toNumber(built.guardArgs.amount_usd) ?? 0 });
+      return { ...built, guardArgs: { ...built.guardArgs, ...fields, exposure_unavailable: false } };
+    }
+
+    const totals = exposureFields(snapshot, { conditionId: null, side, amountUsd: toNumber(built.guardArgs.amount_usd) ?? 0 });
+    for (const field of MARKET_EXPOSURE_FIELDS) delete totals[field];
+    const enrichedLegs = legs.map((leg, index) => {
+      const fields = exposureFields(snapshot, { conditionId: conditionIds[index]!, side, amountUsd: amountIn(conditionIds[index]!) });
+      return { ...leg, ...Object.fromEntries(MARKET_EXPOSURE_FIELDS.map((field) => [field, fields[field]])) };
+    });
+    return { ...built, guardArgs: { ...built.guardArgs, ...totals, legs: enrichedLegs, exposure_unavailable: false } };
+  }
+
+  private async fetchExposure(binaryPath: string): Promise<ExposureSnapshot> {
+    const address = await this.exposureAddress(binaryPath);
+    const [value, positions, orders] = await Promise.all([
+      this.exposureLookup(binaryPath, ['data', 'value', address]),
+      this.exposureLookup(binaryPath, ['data', 'positions', address, '--limit', '500']),
+      this.openOrderRows(binaryPath),
+    ]);
+
+    return {
+      address,
+      portfolioValueUsd: parsePortfolioValue(value),
+      positions: parsePositions(positions),
+      openOrders: parseOpenOrders(orders),
+    };
+  }
+
+  private async exposureAddress(binaryPath: string): Promise<string> {
+    const configured = this.resolved.config.exposure.address;
+    const address = configured === 'auto'
+      ? walletAddress(await this.exposureLookup(binaryPath, ['wallet', 'show']))
+      : configured;
+    if (!address || !WALLET_ADDRESS_PATTERN.test(address)) {
+      throw new ExposureLookupError(configured === 'auto' ? 'no wallet configured' : `invalid exposure.address '${configured}'`);
+    }
+    return address;
+  }
+
+  private async openOrderRows(binaryPath: string): Promise<Record<string, unknown>[]> {
+    const rows: Record<string, unknown>[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < EXPOSURE_MAX_ORDER_PAGES; page++) {
+      const output = await this.exposureLookup(binaryPath, cursor === undefined ? ['clob', 'orders'] : ['clob', 'orders', '--cursor', cursor]);
+      rows.push(...pageRows(output));
+      const next = asRecord(output).next_cursor;
+      if (typeof next !== 'string' || next === END_CURSOR || !CURSOR_PATTERN.test(next)) break;
+      cursor = next;
+    }
+    return rows;
+  }
+
+  /** Preflight already knows the condition id; otherwise the book carries it. */
+  private async conditionIdFor(binaryPath: string, leg: Record<string, unknown>): Promise<string | null> {
+    const known = optionalString(leg.condition_id);
+    if (known) return known;
+    const book = await this.exposureLookup(binaryPath, ['clob', 'book', String(leg.token)]);
+    return optionalString(asRecord(book).market) ?? null;
+  }
+
+  private async exposureLookup(binaryPath: string, argv: string[]): Promise<unknown> {
+    const result = await this.lookup(binaryPath, argv, this.resolved.config.exposure.timeoutMs);
+    if (result.warning !== undefined) {
+      throw new ExposureLookupError(`${argv.slice(0, 2).join(' ')}: ${result.warning}`);
+    }
+    return result.parsed;
+  }
+
+  private async runCommand(binaryPath: string, argv: string[], redact: boolean, onSpawn?: () => void): Promise<ExecutionResult> {
     const execution = await this.execute(
       binaryPath,
-      built.argv,
+      argv,
       {
         timeoutMs: this.resolved.config.execution.maxCommandTimeoutMs,
         maxOutputBytes: this.resolved.config.execution.maxOutputBytes,
+        redact,
+        onSpawn,
       },
     );
 
@@ -349,17 +1105,7 @@ export class PolymarketVetoRuntime {
       });
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: jsonText({
-          live: spec.mutating,
-          tool: spec.name,
-          command: execution.commandPreview,
-          output: execution.parsed,
-        }),
-      }],
-    };
+    return execution;
   }
 
   private resolveLiveState(spec: ToolSpec, simulationOverride?: boolean): LiveState {
@@ -410,9 +1156,9 @@ export class PolymarketVetoRuntime {
     if (existsSync(vetoConfigPath)) {
       try {
         const parsed = parseYaml(readFileSync(vetoConfigPath, 'utf-8')) as unknown;
-        const root = toRecord(parsed);
-        const cloud = toRecord(root.cloud);
-        const approval = toRecord(root.approval);
+        const root = asRecord(parsed);
+        const cloud = asRecord(root.cloud);
+        const approval = asRecord(root.approval);
 
         const configuredBaseUrl = optionalString(cloud.baseUrl);
         if (configuredBaseUrl) {
@@ -458,7 +1204,7 @@ export class PolymarketVetoRuntime {
         });
 
         if (response.ok) {
-          const body = toRecord(await response.json());
+          const body = asRecord(await response.json());
           const status = optionalString(body.status);
 
           if (status === 'approved' || status === 'denied' || status === 'expired') {
@@ -506,11 +1252,55 @@ export class PolymarketVetoRuntime {
     }
   }
 
+  /**
+   * Public lookups used by simulation; failures become warnings instead of errors.
+   * Output is not redacted so condition ids in books survive for paper orders.
+   */
+  private async lookup(binaryPath: string, argv: string[], timeoutMs = 5000): Promise<{ parsed?: unknown; warning?: string }> {
+    const response = await this.execute(
+      binaryPath,
+      argv,
+      {
+        timeoutMs: Math.min(this.resolved.config.execution.maxCommandTimeoutMs, timeoutMs),
+        maxOutputBytes: this.resolved.config.execution.maxOutputBytes,
+        redact: false,
+      },
+    );
+
+    if (!response.ok) {
+      return { warning: response.stderr || `${argv.slice(0, 2).join(' ')} failed with code ${response.exitCode}` };
+    }
+    return { parsed: response.parsed };
+  }
+
+  private async simulateAgainstBook(binaryPath: string, order: SimulatedOrder, book?: unknown): Promise<BookSimulation> {
+    const [bookLookup, feeLookup] = await Promise.all([
+      book === undefined
+        ? this.lookup(binaryPath, ['clob', 'book', order.token])
+        : Promise.resolve<{ parsed?: unknown; warning?: string }>({ parsed: book }),
+      this.lookup(binaryPath, ['clob', 'fee-rate', order.token]),
+    ]);
+
+    const head = { token: order.token, side: order.side, orderType: order.orderType };
+    if (bookLookup.warning) {
+      return { head, warning: `book lookup failed: ${bookLookup.warning}` };
+    }
+
+    const feeRateBps = feeLookup.warning ? null : toNumber(asRecord(feeLookup.parsed).base_fee_bps);
+    return {
+      head,
+      market: optionalString(asRecord(bookLookup.parsed).market) ?? null,
+      fill: simulateOrder(parseBook(bookLookup.parsed), order, feeRateBps),
+      ...(feeLookup.warning ? { feeWarning: `fee-rate lookup failed: ${feeLookup.warning}` } : {}),
+    };
+  }
+
   private async simulate(
     spec: ToolSpec,
     built: { argv: string[]; guardArgs: Record<string, unknown> },
     binaryPath: string,
     reason?: string,
+    payloads = new Map<string, MarketPayloads>(),
   ): Promise<Record<string, unknown>> {
     const out: Record<string, unknown> = {
       simulation: true,
@@ -521,53 +1311,120 @@ export class PolymarketVetoRuntime {
       liveTrading: false,
     };
 
-    if (spec.name === 'order_market' || spec.name === 'order_create_limit') {
-      const token = typeof built.guardArgs.token === 'string' ? built.guardArgs.token : null;
-      if (token) {
-        const midpointResponse = await this.execute(
-          binaryPath,
-          ['clob', 'midpoint', token],
-          {
-            timeoutMs: Math.min(this.resolved.config.execution.maxCommandTimeoutMs, 5000),
-            maxOutputBytes: this.resolved.config.execution.maxOutputBytes,
-          },
-        );
-
-        if (midpointResponse.ok) {
-          const midpoint = extractMidpoint(midpointResponse.parsed);
-          out.marketReference = {
-            token,
-            midpoint,
-            raw: midpointResponse.parsed,
-          };
-
-          if (spec.name === 'order_market') {
-            const amount = asNumber(built.guardArgs.amount);
-            if (amount !== null && midpoint !== null && midpoint > 0) {
-              out.estimatedShares = Number((amount / midpoint).toFixed(6));
-            }
-          }
+    if (this.paper && PAPER_CANCEL_TOOLS.has(spec.name)) {
+      out.paperCancel = this.cancelPaperOrders(built.guardArgs);
+      return out;
+    }
 
-          if (spec.name === 'order_create_limit') {
-            const price = asNumber(built.guardArgs.price);
-            const size = asNumber(built.guardArgs.size);
-            if (price !== null && size !== null) {
-              out.estimatedNotionalUsd = Number((price * size).toFixed(6));
-            }
-            if (price !== null && midpoint !== null) {
-              out.priceVsMidpoint = Number((price - midpoint).toFixed(6));
-            }
-          }
-        } else {
-          out.marketReference = {
-            token,
-            warning: midpointResponse.stderr || `midpoint lookup failed with code ${midpointResponse.exitCode}`,
-          };
+    const orders = simulatedOrders(spec.name, built.guardArgs);
+    if (orders.length === 0) {
+      return out;
+    }
+
+    const simulations = await Promise.all(orders.map((order) => this.simulateAgainstBook(binaryPath, order, payloads.get(order.token)?.book)));
+    const results: Array<Record<string, unknown>> = simulations.map((simulation, index) => {
+      if ('warning' in simulation) return { ...simulation.head, warning: simulation.warning };
+      const { head, market, fill, feeWarning } = simulation;
+      return {
+        ...head,
+        market,
+        ...fill,
+        ...(feeWarning ? { feeWarning } : {}),
+        ...(this.paper ? { paper: this.paper.record(spec.name, orders[index]!, fill, market) } : {}),
+      };
+    });
+    if (this.paper) out.paperCashUsd = this.paper.cashUsd;
+
+    if (spec.name !== 'order_batch_limit') {
+      out.order = results[0];
+      return out;
+    }
+
+    const sum = (key: string): number => round(results.reduce((total, leg) => total + (toNumber(leg[key]) ?? 0), 0));
+    out.legs = results;
+    out.totals = {
+      filledSize: sum('filledSize'),
+      filledUsd: sum('filledUsd'),
+      restingSize: sum('restingSize'),
+      feesUsd: sum('feesUsd'),
+      cashUsd: round(results.reduce((total, leg) => {
+        const delta = leg.positionDelta as { cashUsd?: number } | undefined;
+        return total + (delta?.cashUsd ?? 0);
+      }, 0)),
+    };
+    return out;
+  }
+
+  /** Simulated cancels close open paper orders; ids that are not open are reported back. */
+  private cancelPaperOrders(guardArgs: Record<string, unknown>): Record<string, unknown> {
+    const orderIds = Array.isArray(guardArgs.orderIds)
+      ? guardArgs.orderIds as string[]
+      : typeof guardArgs.orderId === 'string' ? [guardArgs.orderId] : undefined;
+    const cancelled = this.paper!.cancel({
+      orderIds,
+      market: optionalString(guardArgs.market),
+      asset: optionalString(guardArgs.asset),
+    });
+
+    const cancelledIds = cancelled.map((order) => order.id);
+    return {
+      cancelled: cancelledIds,
+      notCancelled: (orderIds ?? [])
+        .filter((id) => !cancelledIds.includes(id.toLowerCase()))
+        .map((id) => ({ orderId: id, reason: 'no open paper order with this id' })),
+    };
+  }
+
+  /**
+   * One pass over open paper orders: expires GTD orders past their TTL, then
+   * fetches each token's book once and fills orders the market has crossed.
+   * Overlapping calls share the pass in flight.
+   */
+  async pollRestingOrders(now = new Date()): Promise<PaperPollReport> {
+    if (!this.paper) return { expired: [], filled: [], warnings: [] };
+    if (!this.paperPolling) {
+      this.paperPolling = this.pollPaperBooks(this.paper, now).finally(() => {
+        this.paperPolling = null;
+      });
+    }
+    return this.paperPolling;
+  }
+
+  private async pollPaperBooks(paper: PaperLedger, now: Date): Promise<PaperPollReport> {
+    const expired = paper.expire(now);
+    const filled: PaperOrder[] = [];
+    const warnings: string[] = [];
+
+    const tokens = [...new Set(paper.openOrders().map((order) => order.token))];
+    if (tokens.length > 0) {
+      const binaryPath = this.requireBinaryPath();
+      for (const token of tokens) {
+        const book = await this.lookup(binaryPath, ['clob', 'book', token]);
+        if (book.warning) {
+          warnings.push(`book lookup failed for ${token}: ${book.warning}`);
+          continue;
         }
+        filled.push(...paper.fillResting(token, parseBook(book.parsed), now));
       }
     }
 
-    return out;
+    return { expired, filled, warnings };
+  }
+
+  /** Polls resting paper orders every `paper.pollIntervalMs` without keeping the process alive. */
+  startPaperPolling(): void {
+    if (!this.paper || this.paperTimer || !this.binary.available) return;
+    this.paperTimer = setInterval(() => {
+      this.pollRestingOrders().catch((error) => {
+        process.stderr.write(`Paper order polling failed: ${error instanceof Error ? error.message : String(error)}\n`);
+      });
+    }, this.resolved.config.paper.pollIntervalMs);
+    this.paperTimer.unref();
+  }
+
+  stopPaperPolling(): void {
+    if (this.paperTimer) clearInterval(this.paperTimer);
+    this.paperTimer = null;
   }
 
   toRpcError(error: unknown): RuntimeErrorShape {
@@ -590,13 +1447,6 @@ export class PolymarketVetoRuntime {
   }
 }
 
-function toRecord(value: unknown): Record<string, unknown> {
-  if (!value || typeof value !== 'object' || Array.isArray(value)) {
-    return {};
-  }
-  return value as Record<string, unknown>;
-}
-
 function optionalString(value: unknown): string | undefined {
   if (typeof value !== 'string') return undefined;
   const trimmed = value.trim();
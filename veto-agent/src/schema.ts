@@ -0,0 +1,135 @@
+/**
+ * Minimal JSON Schema validator for tool input schemas. Supports the keywords
+ * tools actually declare (type, enum, numeric bounds, string length/pattern,
+ * arrays, nested objects) and reports every problem with a field path such as
+ * `legs[1].price`, so the advertised schema is also the enforced one.
+ */
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+type JsonType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  return value as Record<string, unknown>;
+}
+
+function matchesType(value: unknown, type: JsonType): boolean {
+  switch (type) {
+    case 'object':
+      return asRecord(value) !== null;
+    case 'array':
+      return Array.isArray(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+  }
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `'${value}'` : String(value);
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function invalid(issues: SchemaIssue[], path: string, expected: string): void {
+  issues.push({
+    path,
+    message: path ? `Invalid '${path}': expected ${expected}` : `Invalid arguments: expected ${expected}`,
+  });
+}
+
+function validateNode(schema: unknown, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const node = asRecord(schema);
+  if (!node) return;
+
+  if (node.type !== undefined) {
+    const types = (Array.isArray(node.type) ? node.type : [node.type]) as JsonType[];
+    if (!types.some((type) => matchesType(value, type))) {
+      invalid(issues, path, types.join(' or '));
+      return;
+    }
+  }
+
+  if (Array.isArray(node.enum) && !node.enum.includes(value)) {
+    invalid(issues, path, `one of ${node.enum.map(String).join('|')}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (typeof node.minimum === 'number' && value < node.minimum) invalid(issues, path, `number >= ${node.minimum}`);
+    if (typeof node.maximum === 'number' && value > node.maximum) invalid(issues, path, `number <= ${node.maximum}`);
+    if (typeof node.exclusiveMinimum === 'number' && value <= node.exclusiveMinimum) {
+      invalid(issues, path, `number > ${node.exclusiveMinimum}`);
+    }
+    if (typeof node.exclusiveMaximum === 'number' && value >= node.exclusiveMaximum) {
+      invalid(issues, path, `number < ${node.exclusiveMaximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof node.minLength === 'number' && value.length < node.minLength) {
+      invalid(issues, path, node.minLength === 1 ? 'non-empty string' : `at least ${node.minLength} characters`);
+    }
+    if (typeof node.maxLength === 'number' && value.length > node.maxLength) {
+      invalid(issues, path, `at most ${node.maxLength} characters`);
+    }
+    if (typeof node.pattern === 'string' && !new RegExp(node.pattern).test(value)) {
+      invalid(issues, path, `string matching /${node.pattern}/, got ${describe(value)}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof node.minItems === 'number' && value.length < node.minItems) {
+      invalid(issues, path, `at least ${node.minItems} item(s)`);
+    }
+    if (typeof node.maxItems === 'number' && value.length > node.maxItems) {
+      invalid(issues, path, `at most ${node.maxItems} item(s)`);
+    }
+    if (node.items !== undefined) {
+      value.forEach((item, index) => validateNode(node.items, item, childPath(path, index), issues));
+    }
+  }
+
+  const record = asRecord(value);
+  if (record) {
+    const properties = asRecord(node.properties) ?? {};
+    const required = Array.isArray(node.required) ? node.required as string[] : [];
+
+    for (const key of required) {
+      if (record[key] === undefined) invalid(issues, childPath(path, key), 'a value (required)');
+    }
+
+    for (const [key, child] of Object.entries(record)) {
+      if (child === undefined) continue;
+      const propertySchema = properties[key];
+      if (propertySchema !== undefined) {
+        validateNode(propertySchema, child, childPath(path, key), issues);
+      } else if (node.additionalProperties === false) {
+        issues.push({ path: childPath(path, key), message: `Unexpected argument '${childPath(path, key)}'` });
+      } else if (asRecord(node.additionalProperties)) {
+        validateNode(node.additionalProperties, child, childPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/** Returns every violation of `schema` by `value`; an empty list means valid. */
+export function validateSchema(schema: unknown, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(schema, value, '', issues);
+  return issues;
+}
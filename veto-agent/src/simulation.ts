@@ -0,0 +1,115 @@
+/** Matches simulated orders against a `clob book` snapshot. */
+
+import { walkBook, type BookLevel, type OrderBook } from './analytics.js';
+import { round } from './values.js';
+
+export type SimulatedOrderType = 'GTC' | 'GTD' | 'FOK' | 'FAK';
+
+export interface SimulatedOrder {
+  token: string;
+  side: 'buy' | 'sell';
+  orderType: SimulatedOrderType;
+  /** Limit orders carry a price and a share size. */
+  price?: number;
+  size?: number;
+  /** Market orders carry an amount: USD for buys, shares for sells (as the CLI does). */
+  amount?: number;
+  postOnly?: boolean;
+}
+
+export type SimulationStatus = 'filled' | 'partially_filled' | 'resting' | 'killed' | 'rejected';
+
+export interface SimulationFill {
+  status: SimulationStatus;
+  reason?: string;
+  fills: BookLevel[];
+  filledSize: number;
+  filledUsd: number;
+  averagePrice: number | null;
+  restingSize: number;
+  restingPrice: number | null;
+  feeRateBps: number | null;
+  feesUsd: number | null;
+  positionDelta: { token: string; shares: number; cashUsd: number };
+  book: { bestBid: number | null; bestAsk: number | null; midpoint: number | null };
+}
+
+/**
+ * Polymarket charges `rate * min(p, 1 - p) * shares` per fill, so fees peak at
+ * 50c and vanish near certainty. This is an estimate from the token's base rate.
+ */
+export function estimateFees(fills: BookLevel[], feeRateBps: number): number {
+  return round(fills.reduce((sum, fill) => sum + (feeRateBps / 10_000) * Math.min(fill.price, 1 - fill.price) * fill.size, 0));
+}
+
+/**
+ * FOK fills completely or not at all; FAK takes what crosses and cancels the
+ * rest; GTC/GTD take what crosses and rest the remainder at the limit price.
+ * Post-only orders are rejected if they would cross. Market orders have no
+ * limit price and walk the book until the amount is used.
+ */
+export function simulateOrder(book: OrderBook, order: SimulatedOrder, feeRateBps: number | null): SimulationFill {
+  const isMarket = order.price === undefined;
+  const bestOpposite = order.side === 'buy' ? book.bestAsk : book.bestBid;
+  const crosses = !isMarket && bestOpposite !== null
+    && (order.side === 'buy' ? bestOpposite <= order.price! : bestOpposite >= order.price!);
+
+  const result = (
+    status: SimulationStatus,
+    fills: BookLevel[],
+    restingSize: number,
+    reason?: string,
+  ): SimulationFill => {
+    const filledSize = round(fills.reduce((sum, fill) => sum + fill.size, 0));
+    const filledUsd = round(fills.reduce((sum, fill) => sum + fill.size * fill.price, 0));
+    const feesUsd = feeRateBps === null ? null : estimateFees(fills, feeRateBps);
+    const cash = order.side === 'buy' ? -(filledUsd + (feesUsd ?? 0)) : filledUsd - (feesUsd ?? 0);
+    return {
+      status,
+      ...(reason ? { reason } : {}),
+      fills,
+      filledSize,
+      filledUsd,
+      averagePrice: filledSize > 0 ? round(filledUsd / filledSize) : null,
+      restingSize: round(restingSize),
+      restingPrice: restingSize > 0 ? order.price ?? null : null,
+      feeRateBps,
+      feesUsd,
+      positionDelta: {
+        token: order.token,
+        shares: order.side === 'buy' ? filledSize : -filledSize,
+        cashUsd: round(cash),
+      },
+      book: { bestBid: book.bestBid, bestAsk: book.bestAsk, midpoint: book.midpoint },
+    };
+  };
+
+  if (order.postOnly && crosses) {
+    return result('rejected', [], 0, `post-only order would cross the best ${order.side === 'buy' ? 'ask' : 'bid'} at ${bestOpposite}`);
+  }
+
+  const target = isMarket
+    ? order.side === 'buy' ? { amountUsd: order.amount ?? 0 } : { size: order.amount ?? 0 }
+    : { size: order.size ?? 0 };
+  const walk = crosses || isMarket ? walkBook(book, order.side, target, order.price) : null;
+  const fills = walk?.fills ?? [];
+  const fullyFilled = walk?.fullyFilled ?? false;
+
+  if (order.orderType === 'FOK') {
+    return fullyFilled
+      ? result('filled', fills, 0)
+      : result('killed', [], 0, 'fill-or-kill order cannot be filled completely at the current book');
+  }
+
+  if (fullyFilled) return result('filled', fills, 0);
+
+  if (order.orderType === 'FAK' || isMarket) {
+    return fills.length > 0
+      ? result('partially_filled', fills, 0, 'unfilled remainder cancelled')
+      : result('killed', [], 0, 'nothing to fill at the current book');
+  }
+
+  const filledSize = fills.reduce((sum, fill) => sum + fill.size, 0);
+  const restingSize = (order.size ?? 0) - filledSize;
+  return result(fills.length > 0 ? 'partially_filled' : 'resting', fills, restingSize);
+}
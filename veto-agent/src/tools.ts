@@ -1,3 +1,16 @@
+import {
+  aggregateCandles,
+  CANDLE_BUCKETS,
+  pageRows,
+  parsePriceHistory,
+  summarizeComments,
+  summarizeRewards,
+  summarizeSeries,
+  parseBook,
+  walkBook,
+  type CandleBucket,
+} from './analytics.js';
+import { hasValidChecksum } from './checksum.js';
 import type { PolicyProfile } from './types.js';
 
 export interface ToolSchema {
@@ -11,12 +24,37 @@ export interface CommandBuildResult {
   argv: string[];
   guardArgs: Record<string, unknown>;
   notes?: string[];
+  transform?(output: unknown): unknown;
+  /**
+   * Composite tools run several CLI commands through `run` instead of a single
+   * argv; each call is executed and redacted exactly like a plain tool call.
+   */
+  compose?(run: (argv: string[]) => Promise<unknown>): Promise<unknown>;
 }
 
+/**
+ * How a tool touches the account: public market data, private reads that need
+ * wallet credentials, sensitive reads that profiles should gate (for example
+ * funding addresses), or state-changing operations.
+ */
+export type ToolCategory = 'public_read' | 'authenticated_read' | 'sensitive_read' | 'mutating';
+
 export interface ToolSpec {
   name: string;
   description: string;
   mutating: boolean;
+  category?: ToolCategory;
+  /**
+   * Output is masked for 32-byte hex values by default. Pure computations and
+   * order/reward reads that return condition, collection or order ids opt out,
+   * since they never touch key material and agents need the ids for follow-ups.
+   */
+  redactOutput?: boolean;
+  /**
+   * Accepts `{ market, outcome }` in place of `token`. The runtime resolves the
+   * pair through `markets get` and calls `build` with the token filled in.
+   */
+  resolveOutcome?: boolean;
   inputSchema: ToolSchema;
   build(args: Record<string, unknown>): CommandBuildResult;
 }
@@ -53,6 +91,23 @@ function asPositiveNumber(value: unknown, field: string): number {
   return parsed;
 }
 
+/** Outcome-token prices are probabilities, so anything outside (0, 1) can never fill. */
+function asPrice(value: unknown, field: string): number {
+  const parsed = asNumber(value, field);
+  if (parsed <= 0 || parsed >= 1) {
+    throw new Error(`Invalid '${field}': expected price between 0 and 1 (exclusive)`);
+  }
+  return parsed;
+}
+
+function asNonNegativeNumber(value: unknown, field: string): number {
+  const parsed = asNumber(value, field);
+  if (parsed < 0) {
+    throw new Error(`Invalid '${field}': expected non-negative number`);
+  }
+  return parsed;
+}
+
 function asBool(value: unknown, field: string): boolean {
   if (typeof value !== 'boolean') {
     throw new Error(`Invalid '${field}': expected boolean`);
@@ -60,11 +115,6 @@ function asBool(value: unknown, field: string): boolean {
   return value;
 }
 
-function maybePositiveNumber(value: unknown, field: string): number | undefined {
-  if (value === undefined || value === null) return undefined;
-  return asPositiveNumber(value, field);
-}
-
 function maybeBool(value: unknown, field: string): boolean | undefined {
   if (value === undefined || value === null) return undefined;
   return asBool(value, field);
@@ -75,6 +125,28 @@ function maybeString(value: unknown, field: string): string | undefined {
   return asString(value, field);
 }
 
+function asPositiveInt(value: unknown, field: string): number {
+  const parsed = asNumber(value, field);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`Invalid '${field}': expected positive integer`);
+  }
+  return parsed;
+}
+
+function maybePositiveInt(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asPositiveInt(value, field);
+}
+
+function maybeNonNegativeInt(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  const parsed = asNumber(value, field);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid '${field}': expected non-negative integer`);
+  }
+  return parsed;
+}
+
 function asSide(value: unknown, field: string): 'buy' | 'sell' {
   const side = asString(value, field).toLowerCase();
   if (side !== 'buy' && side !== 'sell') {
@@ -91,161 +163,1726 @@ function asOrderType(value: string): 'GTC' | 'FOK' | 'GTD' | 'FAK' {
   throw new Error("Invalid 'orderType': expected GTC|FOK|GTD|FAK");
 }
 
+const PRICE_HISTORY_INTERVALS = ['1m', '1h', '6h', '1d', '1w', 'max'] as const;
+
+function asPriceHistoryInterval(value: unknown, field: string): (typeof PRICE_HISTORY_INTERVALS)[number] {
+  const interval = asString(value, field).toLowerCase();
+  if (!(PRICE_HISTORY_INTERVALS as readonly string[]).includes(interval)) {
+    throw new Error(`Invalid '${field}': expected ${PRICE_HISTORY_INTERVALS.join('|')}`);
+  }
+  return interval as (typeof PRICE_HISTORY_INTERVALS)[number];
+}
+
+function maybeCandleBucket(value: unknown, field: string): CandleBucket | undefined {
+  const bucket = maybeString(value, field);
+  if (bucket === undefined) return undefined;
+  if (!Object.hasOwn(CANDLE_BUCKETS, bucket)) {
+    throw new Error(`Invalid '${field}': expected ${Object.keys(CANDLE_BUCKETS).join('|')}`);
+  }
+  return bucket as CandleBucket;
+}
+
+function asAssetType(value: unknown, field: string): 'collateral' | 'conditional' {
+  const assetType = asString(value, field).toLowerCase();
+  if (assetType !== 'collateral' && assetType !== 'conditional') {
+    throw new Error(`Invalid '${field}': expected 'collateral' or 'conditional'`);
+  }
+  return assetType;
+}
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+function asAddress(value: unknown, field: string): string {
+  const address = asString(value, field);
+  if (!ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid '${field}': expected 0x-prefixed 40-hex-character address`);
+  }
+  if (!hasValidChecksum(address)) {
+    throw new Error(`Invalid '${field}': mixed-case address fails EIP-55 checksum`);
+  }
+  return address;
+}
+
+const BYTES32_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function asBytes32(value: unknown, field: string): string {
+  const hex = asString(value, field);
+  if (!BYTES32_PATTERN.test(hex)) {
+    throw new Error(`Invalid '${field}': expected 0x-prefixed 32-byte hex`);
+  }
+  return hex;
+}
+
+/**
+ * Identifier shapes accepted for values that reach argv. None of them can start
+ * with '-', so a validated value is never parsed as a CLI flag; free text (the
+ * search query) goes after a `--` separator instead.
+ */
+const TOKEN_ID_PATTERN = /^\d{1,78}$/;
+const NUMERIC_ID_PATTERN = /^\d{1,20}$/;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const LEAGUE_PATTERN = /^[A-Za-z0-9]+(?:-[A-Za-z0-9]+)*$/;
+const SORT_FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const CURSOR_PATTERN = /^[A-Za-z0-9+/=]+$/;
+const FREE_TEXT_PATTERN = /^[^\u0000-\u001f\u007f]+$/;
+
+function asPatterned(value: unknown, field: string, pattern: RegExp, expected: string): string {
+  const text = asString(value, field);
+  if (!pattern.test(text)) {
+    throw new Error(`Invalid '${field}': expected ${expected}`);
+  }
+  return text;
+}
+
+/** CLOB token (asset) ids are uint256 values in decimal. */
+function asTokenId(value: unknown, field: string): string {
+  return asPatterned(value, field, TOKEN_ID_PATTERN, 'decimal token id');
+}
+
+function maybeTokenId(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asTokenId(value, field);
+}
+
+function asNumericId(value: unknown, field: string): string {
+  return asPatterned(value, field, NUMERIC_ID_PATTERN, 'numeric id');
+}
+
+/** Gamma lookups take either a numeric id or a lowercase hyphenated slug. */
+function asIdOrSlug(value: unknown, field: string): string {
+  return asPatterned(value, field, SLUG_PATTERN, 'numeric id or lowercase slug');
+}
+
+function maybeSlug(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asPatterned(value, field, SLUG_PATTERN, 'lowercase slug');
+}
+
+function maybeLeague(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asPatterned(value, field, LEAGUE_PATTERN, 'league code such as nba');
+}
+
+function maybeSortField(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asPatterned(value, field, SORT_FIELD_PATTERN, 'field name such as volume or startDate');
+}
+
+function maybeCursor(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asPatterned(value, field, CURSOR_PATTERN, 'base64 pagination cursor');
+}
+
+/** Schema for tools flagged `resolveOutcome`: a token, or a market plus outcome label. */
+const OUTCOME_TARGET_PROPERTIES = {
+  token: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+  market: { type: 'string', pattern: SLUG_PATTERN.source },
+  outcome: { type: 'string', maxLength: 100, pattern: FREE_TEXT_PATTERN.source },
+};
+
+interface OutcomeTarget {
+  token: string;
+  market?: string;
+  outcome?: string;
+}
+
+/**
+ * By the time `build` runs, the runtime has turned `market`/`outcome` into a
+ * token; the pair is kept alongside it so guard args show what was named.
+ */
+function asOutcomeTarget(args: Record<string, unknown>): OutcomeTarget {
+  if (args.token === undefined) {
+    throw new Error("Invalid 'token': expected decimal token id, or 'market' with 'outcome'");
+  }
+  const token = asTokenId(args.token, 'token');
+  const market = args.market === undefined ? undefined : asIdOrSlug(args.market, 'market');
+  const outcome = args.outcome === undefined
+    ? undefined
+    : asPatterned(args.outcome, 'outcome', FREE_TEXT_PATTERN, 'outcome label such as Yes');
+  return { token, market, outcome };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function asDate(value: unknown, field: string): string {
+  const date = asString(value, field);
+  const parsed = new Date(`${date}T00:00:00Z`);
+  if (!DATE_PATTERN.test(date) || Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid '${field}': expected calendar date YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function maybeBytes32(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asBytes32(value, field);
+}
+
+function maybeAddress(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  return asAddress(value, field);
+}
+
+const DEPOSIT_ADDRESS_PATTERN = /^[0-9A-Za-z]{26,64}$/;
+
+function asDepositAddress(value: unknown, field: string): string {
+  const address = asString(value, field);
+  if (!DEPOSIT_ADDRESS_PATTERN.test(address)) {
+    throw new Error(`Invalid '${field}': expected EVM, Solana or Bitcoin address`);
+  }
+  return address;
+}
+
+const COMMENT_ENTITY_TYPES = ['event', 'market', 'series'] as const;
+const LEADERBOARD_PERIODS = ['day', 'week', 'month', 'all'] as const;
+const LEADERBOARD_ORDER_BY = ['pnl', 'vol'] as const;
+
+function maybeEnum<T extends string>(value: unknown, field: string, allowed: readonly T[]): T | undefined {
+  const raw = maybeString(value, field);
+  if (raw === undefined) return undefined;
+  const normalized = raw.toLowerCase();
+  if (!(allowed as readonly string[]).includes(normalized)) {
+    throw new Error(`Invalid '${field}': expected ${allowed.join('|')}`);
+  }
+  return normalized as T;
+}
+
+interface LimitOrderLeg {
+  token: string;
+  price: number;
+  size: number;
+  amount_usd: number;
+}
+
+const MAX_BATCH_ORDER_LEGS = 15;
+
+/** Validates token/price/size the same way for single and batched limit orders. */
+function asLimitLeg(source: Record<string, unknown>, prefix: string): LimitOrderLeg {
+  const token = asTokenId(source.token, `${prefix}token`);
+  const price = asPrice(source.price, `${prefix}price`);
+  const size = asPositiveNumber(source.size, `${prefix}size`);
+  return {
+    token,
+    price,
+    size,
+    amount_usd: Number((price * size).toFixed(8)),
+  };
+}
+
+function asLimitLegs(value: unknown, field: string): LimitOrderLeg[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid '${field}': expected non-empty array of orders`);
+  }
+  if (value.length > MAX_BATCH_ORDER_LEGS) {
+    throw new Error(`Invalid '${field}': at most ${MAX_BATCH_ORDER_LEGS} orders per batch`);
+  }
+
+  return value.map((item, index) => {
+    const prefix = `${field}[${index}].`;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error(`Invalid '${field}[${index}]': expected object`);
+    }
+    const leg = item as Record<string, unknown>;
+    for (const key of Object.keys(leg)) {
+      if (key !== 'token' && key !== 'price' && key !== 'size') {
+        throw new Error(`Unexpected argument '${prefix}${key}'`);
+      }
+    }
+    return asLimitLeg(leg, prefix);
+  });
+}
+
 function toFlagBool(value: boolean): string {
   return value ? 'true' : 'false';
 }
 
-const READ_ONLY_TOOLS: ToolSpec[] = [
+const MAX_BATCH_TOKENS = 100;
+const MAX_BATCH_CANCELS = 100;
+const MAX_SCORING_ORDERS = 100;
+const REWARDS_SUMMARY_MAX_PAGES = 10;
+const END_CURSOR = 'LTE=';
+
+/** Follows `next_cursor` until the CLI reports the end cursor or the page cap is hit. */
+async function collectPages(
+  run: (argv: string[]) => Promise<unknown>,
+  argv: string[],
+  maxPages: number,
+): Promise<{ rows: Record<string, unknown>[]; truncated: boolean }> {
+  const rows: Record<string, unknown>[] = [];
+  let cursor: string | undefined;
+
+  for (let page = 0; page < maxPages; page++) {
+    const output = await run(cursor === undefined ? argv : [...argv, '--cursor', cursor]);
+    rows.push(...pageRows(output));
+    const next = (output as Record<string, unknown> | null)?.next_cursor;
+    if (typeof next !== 'string' || next.length === 0 || next === END_CURSOR) {
+      return { rows, truncated: false };
+    }
+    cursor = next;
+  }
+
+  return { rows, truncated: true };
+}
+
+/** Validates an id array that the CLI receives comma-joined; duplicates are dropped. */
+function asIdList(
+  value: unknown,
+  field: string,
+  noun: string,
+  max: number,
+  parse: (item: unknown, field: string) => string,
+): string[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid '${field}': expected non-empty array of ${noun}s`);
+  }
+  if (value.length > max) {
+    throw new Error(`Invalid '${field}': at most ${max} ${noun}s per call`);
+  }
+
+  const ids = value.map((item, index) => parse(item, `${field}[${index}]`));
+
+  return Array.from(new Set(ids));
+}
+
+function asTokenList(value: unknown, field: string): string[] {
+  return asIdList(value, field, 'token id', MAX_BATCH_TOKENS, asTokenId);
+}
+
+function keyByToken(output: unknown, tokens: string[], idField?: string): Record<string, unknown> {
+  const byToken = new Map<string, unknown>();
+
+  if (Array.isArray(output) && idField) {
+    for (const row of output) {
+      if (!row || typeof row !== 'object') continue;
+      const id = (row as Record<string, unknown>)[idField];
+      if (typeof id === 'string' || typeof id === 'number') {
+        byToken.set(String(id), row);
+      }
+    }
+  } else if (output && typeof output === 'object' && !Array.isArray(output)) {
+    for (const [id, row] of Object.entries(output as Record<string, unknown>)) {
+      byToken.set(id, row);
+    }
+  }
+
+  const keyed: Record<string, unknown> = {};
+  for (const token of tokens) {
+    keyed[token] = byToken.get(token) ?? null;
+  }
+  return keyed;
+}
+
+function buildBatchTokenCommand(
+  args: Record<string, unknown>,
+  subcommand: string,
+  idField?: string,
+): CommandBuildResult {
+  assertAllowedFields(args, ['tokens']);
+  const tokens = asTokenList(args.tokens, 'tokens');
+  return {
+    argv: ['clob', subcommand, tokens.join(',')],
+    guardArgs: { tokens, token_count: tokens.length },
+    transform: (output) => keyByToken(output, tokens, idField),
+  };
+}
+
+const READ_ONLY_TOOLS: ToolSpec[] = [
+  {
+    name: 'markets_list',
+    description: 'List markets with optional filters.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1 },
+        active: { type: 'boolean' },
+        closed: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['limit', 'active', 'closed']);
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const active = maybeBool(args.active, 'active');
+      const closed = maybeBool(args.closed, 'closed');
+      const argv = ['markets', 'list'];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (active !== undefined) argv.push('--active', toFlagBool(active));
+      if (closed !== undefined) argv.push('--closed', toFlagBool(closed));
+      return { argv, guardArgs: { ...args } };
+    },
+  },
+  {
+    name: 'markets_search',
+    description: 'Search markets by free text query.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['query'],
+      properties: {
+        query: { type: 'string', pattern: FREE_TEXT_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['query', 'limit']);
+      const query = asPatterned(args.query, 'query', FREE_TEXT_PATTERN, 'text without control characters');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const argv = ['markets', 'search'];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      // Free text may start with '-', so it goes after the end-of-options marker.
+      argv.push('--', query);
+      return { argv, guardArgs: { query, limit } };
+    },
+  },
+  {
+    name: 'markets_get',
+    description: 'Get market details by id or slug.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['market'],
+      properties: {
+        market: { type: 'string', pattern: SLUG_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['market']);
+      const market = asIdOrSlug(args.market, 'market');
+      return {
+        argv: ['markets', 'get', market],
+        guardArgs: { market },
+      };
+    },
+  },
+  {
+    name: 'events_list',
+    description: 'List events with optional tag and status filters.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        tag: { type: 'string', pattern: SLUG_PATTERN.source },
+        active: { type: 'boolean' },
+        closed: { type: 'boolean' },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        order: { type: 'string', pattern: SORT_FIELD_PATTERN.source },
+        ascending: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['tag', 'active', 'closed', 'limit', 'offset', 'order', 'ascending']);
+      const tag = maybeSlug(args.tag, 'tag');
+      const active = maybeBool(args.active, 'active');
+      const closed = maybeBool(args.closed, 'closed');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const order = maybeSortField(args.order, 'order');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const argv = ['events', 'list'];
+      if (tag !== undefined) argv.push('--tag', tag);
+      if (active !== undefined) argv.push('--active', toFlagBool(active));
+      if (closed !== undefined) argv.push('--closed', toFlagBool(closed));
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (order !== undefined) argv.push('--order', order);
+      if (ascending === true) argv.push('--ascending');
+      return { argv, guardArgs: { tag, active, closed, limit, offset, order, ascending } };
+    },
+  },
+  {
+    name: 'events_get',
+    description: 'Get event details (including its markets) by id or slug.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['event'],
+      properties: {
+        event: { type: 'string', pattern: SLUG_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['event']);
+      const event = asIdOrSlug(args.event, 'event');
+      return {
+        argv: ['events', 'get', event],
+        guardArgs: { event },
+      };
+    },
+  },
+  {
+    name: 'events_tags',
+    description: 'Get tags attached to an event.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['event'],
+      properties: {
+        event: { type: 'string', pattern: NUMERIC_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['event']);
+      const event = asNumericId(args.event, 'event');
+      return {
+        argv: ['events', 'tags', event],
+        guardArgs: { event },
+      };
+    },
+  },
+  {
+    name: 'series_list',
+    description: 'List event series (recurring markets such as daily or weekly games).',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        closed: { type: 'boolean' },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        order: { type: 'string', pattern: SORT_FIELD_PATTERN.source },
+        ascending: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['closed', 'limit', 'offset', 'order', 'ascending']);
+      const closed = maybeBool(args.closed, 'closed');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const order = maybeSortField(args.order, 'order');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const argv = ['series', 'list'];
+      if (closed !== undefined) argv.push('--closed', toFlagBool(closed));
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (order !== undefined) argv.push('--order', order);
+      if (ascending === true) argv.push('--ascending');
+      return { argv, guardArgs: { closed, limit, offset, order, ascending } };
+    },
+  },
+  {
+    name: 'series_get',
+    description: 'Get series details by id.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['series'],
+      properties: {
+        series: { type: 'string', pattern: NUMERIC_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['series']);
+      const series = asNumericId(args.series, 'series');
+      return {
+        argv: ['series', 'get', series],
+        guardArgs: { series },
+      };
+    },
+  },
+  {
+    name: 'tags_list',
+    description: 'List tags used to categorize events and markets.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        ascending: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['limit', 'offset', 'ascending']);
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const argv = ['tags', 'list'];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (ascending === true) argv.push('--ascending');
+      return { argv, guardArgs: { limit, offset, ascending } };
+    },
+  },
+  {
+    name: 'tags_get',
+    description: 'Get tag details by id or slug.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tag'],
+      properties: {
+        tag: { type: 'string', pattern: SLUG_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['tag']);
+      const tag = asIdOrSlug(args.tag, 'tag');
+      return {
+        argv: ['tags', 'get', tag],
+        guardArgs: { tag },
+      };
+    },
+  },
+  {
+    name: 'tags_related',
+    description: 'Get tag relationships for a tag id or slug.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tag'],
+      properties: {
+        tag: { type: 'string', pattern: SLUG_PATTERN.source },
+        omitEmpty: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['tag', 'omitEmpty']);
+      const tag = asIdOrSlug(args.tag, 'tag');
+      const omitEmpty = maybeBool(args.omitEmpty, 'omitEmpty');
+      const argv = ['tags', 'related', tag];
+      if (omitEmpty !== undefined) argv.push('--omit-empty', toFlagBool(omitEmpty));
+      return { argv, guardArgs: { tag, omitEmpty } };
+    },
+  },
+  {
+    name: 'tags_related_tags',
+    description: 'Get the tag objects related to a tag id or slug.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tag'],
+      properties: {
+        tag: { type: 'string', pattern: SLUG_PATTERN.source },
+        omitEmpty: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['tag', 'omitEmpty']);
+      const tag = asIdOrSlug(args.tag, 'tag');
+      const omitEmpty = maybeBool(args.omitEmpty, 'omitEmpty');
+      const argv = ['tags', 'related-tags', tag];
+      if (omitEmpty !== undefined) argv.push('--omit-empty', toFlagBool(omitEmpty));
+      return { argv, guardArgs: { tag, omitEmpty } };
+    },
+  },
+  {
+    name: 'sports_list',
+    description: 'List supported sports and their leagues.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, []);
+      return {
+        argv: ['sports', 'list'],
+        guardArgs: {},
+      };
+    },
+  },
+  {
+    name: 'sports_market_types',
+    description: 'List valid sports market types.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, []);
+      return {
+        argv: ['sports', 'market-types'],
+        guardArgs: {},
+      };
+    },
+  },
+  {
+    name: 'sports_teams',
+    description: 'List sports teams with optional league filter.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        league: { type: 'string', pattern: LEAGUE_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        order: { type: 'string', pattern: SORT_FIELD_PATTERN.source },
+        ascending: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['league', 'limit', 'offset', 'order', 'ascending']);
+      const league = maybeLeague(args.league, 'league');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const order = maybeSortField(args.order, 'order');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const argv = ['sports', 'teams'];
+      if (league !== undefined) argv.push('--league', league);
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (order !== undefined) argv.push('--order', order);
+      if (ascending === true) argv.push('--ascending');
+      return { argv, guardArgs: { league, limit, offset, order, ascending } };
+    },
+  },
+  {
+    name: 'clob_book',
+    description: 'Get order book for token id, or for a market slug/id and outcome name.',
+    mutating: false,
+    resolveOutcome: true,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        ...OUTCOME_TARGET_PROPERTIES,
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['token', 'market', 'outcome']);
+      const { token, market, outcome } = asOutcomeTarget(args);
+      return {
+        argv: ['clob', 'book', token],
+        guardArgs: { token, market, outcome },
+      };
+    },
+  },
+  {
+    name: 'clob_midpoint',
+    description: 'Get midpoint price for token id.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['token'],
+      properties: {
+        token: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['token']);
+      const token = asTokenId(args.token, 'token');
+      return {
+        argv: ['clob', 'midpoint', token],
+        guardArgs: { token },
+      };
+    },
+  },
+  {
+    name: 'clob_price',
+    description: 'Get clob price for token/side, or for a market slug/id and outcome name.',
+    mutating: false,
+    resolveOutcome: true,
+    inputSchema: {
+      type: 'object',
+      required: ['side'],
+      properties: {
+        ...OUTCOME_TARGET_PROPERTIES,
+        side: { type: 'string', enum: ['buy', 'sell'] },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['token', 'market', 'outcome', 'side']);
+      const { token, market, outcome } = asOutcomeTarget(args);
+      const side = asSide(args.side, 'side');
+      return {
+        argv: ['clob', 'price', token, '--side', side],
+        guardArgs: { token, market, outcome, side },
+      };
+    },
+  },
+  {
+    name: 'quote',
+    description: 'Quote a market order against the live book: VWAP, worst price, slippage vs midpoint, levels consumed and unfilled remainder for a USD amount or share size.',
+    mutating: false,
+    resolveOutcome: true,
+    inputSchema: {
+      type: 'object',
+      required: ['side'],
+      properties: {
+        ...OUTCOME_TARGET_PROPERTIES,
+        side: { type: 'string', enum: ['buy', 'sell'] },
+        amountUsd: { type: 'number', exclusiveMinimum: 0 },
+        size: { type: 'number', exclusiveMinimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['token', 'market', 'outcome', 'side', 'amountUsd', 'size']);
+      const { token, market, outcome } = asOutcomeTarget(args);
+      const side = asSide(args.side, 'side');
+      const amountUsd = args.amountUsd === undefined ? undefined : asPositiveNumber(args.amountUsd, 'amountUsd');
+      const size = args.size === undefined ? undefined : asPositiveNumber(args.size, 'size');
+      if ((amountUsd === undefined) === (size === undefined)) {
+        throw new Error("Invalid arguments: expected exactly one of 'amountUsd' or 'size'");
+      }
+
+      return {
+        argv: ['clob', 'book', token],
+        guardArgs: { token, market, outcome, side, amount_usd: amountUsd, size },
+        transform(output) {
+          const target = amountUsd !== undefined ? { amountUsd } : { size: size! };
+          return { token, ...walkBook(parseBook(output), side, target) };
+        },
+      };
+    },
+  },
+  {
+    name: 'clob_books',
+    description: 'Get order books for multiple token ids, keyed by token.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tokens'],
+      properties: {
+        tokens: { type: 'array', items: { type: 'string', pattern: TOKEN_ID_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_TOKENS },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      return buildBatchTokenCommand(args, 'books', 'asset_id');
+    },
+  },
+  {
+    name: 'clob_midpoints',
+    description: 'Get midpoint prices for multiple token ids, keyed by token.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tokens'],
+      properties: {
+        tokens: { type: 'array', items: { type: 'string', pattern: TOKEN_ID_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_TOKENS },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      return buildBatchTokenCommand(args, 'midpoints');
+    },
+  },
+  {
+    name: 'clob_spreads',
+    description: 'Get bid-ask spreads for multiple token ids, keyed by token.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tokens'],
+      properties: {
+        tokens: { type: 'array', items: { type: 'string', pattern: TOKEN_ID_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_TOKENS },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      return buildBatchTokenCommand(args, 'spreads');
+    },
+  },
+  {
+    name: 'clob_last_trades',
+    description: 'Get last trade prices for multiple token ids, keyed by token.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tokens'],
+      properties: {
+        tokens: { type: 'array', items: { type: 'string', pattern: TOKEN_ID_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_TOKENS },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      return buildBatchTokenCommand(args, 'last-trades', 'token_id');
+    },
+  },
+  {
+    name: 'clob_batch_prices',
+    description: 'Get clob prices for multiple token ids on one side, keyed by token.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['tokens', 'side'],
+      properties: {
+        tokens: { type: 'array', items: { type: 'string', pattern: TOKEN_ID_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_TOKENS },
+        side: { type: 'string', enum: ['buy', 'sell'] },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['tokens', 'side']);
+      const tokens = asTokenList(args.tokens, 'tokens');
+      const side = asSide(args.side, 'side');
+      return {
+        argv: ['clob', 'batch-prices', tokens.join(','), '--side', side],
+        guardArgs: { tokens, token_count: tokens.length, side },
+        transform: (output) => keyByToken(output, tokens),
+      };
+    },
+  },
+  {
+    name: 'clob_price_history',
+    description: 'Get price history for token id, optionally aggregated into OHLC candles and summary statistics.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['token', 'interval'],
+      properties: {
+        token: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+        interval: { type: 'string', enum: [...PRICE_HISTORY_INTERVALS] },
+        fidelity: { type: 'integer', minimum: 1 },
+        candles: { type: 'string', enum: Object.keys(CANDLE_BUCKETS) },
+        summary: { type: 'boolean' },
+        includeRaw: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['token', 'interval', 'fidelity', 'candles', 'summary', 'includeRaw']);
+      const token = asTokenId(args.token, 'token');
+      const interval = asPriceHistoryInterval(args.interval, 'interval');
+      const fidelity = maybePositiveInt(args.fidelity, 'fidelity');
+      const candles = maybeCandleBucket(args.candles, 'candles');
+      const summary = maybeBool(args.summary, 'summary');
+      const includeRaw = maybeBool(args.includeRaw, 'includeRaw');
+
+      const argv = ['clob', 'price-history', token, '--interval', interval];
+      if (fidelity !== undefined) argv.push('--fidelity', String(fidelity));
+
+      const guardArgs = { token, interval, fidelity, candles, summary };
+      if (candles === undefined && summary !== true) {
+        return { argv, guardArgs };
+      }
+
+      return {
+        argv,
+        guardArgs,
+        transform(output) {
+          const points = parsePriceHistory(output);
+          const out: Record<string, unknown> = { token, interval, points: points.length };
+          if (summary === true) out.summary = summarizeSeries(points);
+          if (candles !== undefined) {
+            out.bucket = candles;
+            out.candles = aggregateCandles(points, candles);
+          }
+          if (includeRaw === true) out.history = points;
+          return out;
+        },
+      };
+    },
+  },
+  {
+    name: 'portfolio_positions',
+    description: 'Get public portfolio positions for wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address']);
+      const address = asAddress(args.address, 'address');
+      return {
+        argv: ['data', 'positions', address],
+        guardArgs: { address },
+      };
+    },
+  },
+  {
+    name: 'portfolio_closed_positions',
+    description: 'Get closed (settled or exited) positions for wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address', 'limit', 'offset']);
+      const address = asAddress(args.address, 'address');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const argv = ['data', 'closed-positions', address];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      return { argv, guardArgs: { address, limit, offset } };
+    },
+  },
+  {
+    name: 'portfolio_value',
+    description: 'Get total position value for wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address']);
+      const address = asAddress(args.address, 'address');
+      return {
+        argv: ['data', 'value', address],
+        guardArgs: { address },
+      };
+    },
+  },
+  {
+    name: 'portfolio_traded',
+    description: 'Get count of unique markets traded by wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address']);
+      const address = asAddress(args.address, 'address');
+      return {
+        argv: ['data', 'traded', address],
+        guardArgs: { address },
+      };
+    },
+  },
+  {
+    name: 'portfolio_activity',
+    description: 'Get on-chain activity (trades, splits, merges, redemptions) for wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address', 'limit', 'offset']);
+      const address = asAddress(args.address, 'address');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const argv = ['data', 'activity', address];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      return { argv, guardArgs: { address, limit, offset } };
+    },
+  },
+  {
+    name: 'data_holders',
+    description: 'Get top token holders for market condition id.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['market'],
+      properties: {
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['market', 'limit']);
+      const market = asBytes32(args.market, 'market');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const argv = ['data', 'holders', market];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      return { argv, guardArgs: { market, limit } };
+    },
+  },
+  {
+    name: 'data_open_interest',
+    description: 'Get open interest for market condition id.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['market'],
+      properties: {
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['market']);
+      const market = asBytes32(args.market, 'market');
+      return {
+        argv: ['data', 'open-interest', market],
+        guardArgs: { market },
+      };
+    },
+  },
+  {
+    name: 'data_volume',
+    description: 'Get live traded volume for event id, broken down by market.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['event'],
+      properties: {
+        event: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['event']);
+      const event = asPositiveInt(args.event, 'event');
+      return {
+        argv: ['data', 'volume', String(event)],
+        guardArgs: { event },
+      };
+    },
+  },
+  {
+    name: 'data_leaderboard',
+    description: 'Get trader leaderboard ranked by pnl or volume.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        period: { type: 'string', enum: [...LEADERBOARD_PERIODS] },
+        orderBy: { type: 'string', enum: [...LEADERBOARD_ORDER_BY] },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['period', 'orderBy', 'limit', 'offset']);
+      const period = maybeEnum(args.period, 'period', LEADERBOARD_PERIODS);
+      const orderBy = maybeEnum(args.orderBy, 'orderBy', LEADERBOARD_ORDER_BY);
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const argv = ['data', 'leaderboard'];
+      if (period !== undefined) argv.push('--period', period);
+      if (orderBy !== undefined) argv.push('--order-by', orderBy);
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      return { argv, guardArgs: { period, orderBy, limit, offset } };
+    },
+  },
+  {
+    name: 'ctf_condition_id',
+    description: 'Compute a CTF condition id from oracle address, question id and outcome count.',
+    mutating: false,
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['oracle', 'question', 'outcomes'],
+      properties: {
+        oracle: { type: 'string', pattern: ADDRESS_PATTERN.source },
+        question: { type: 'string', pattern: BYTES32_PATTERN.source },
+        outcomes: { type: 'integer', minimum: 2 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['oracle', 'question', 'outcomes']);
+      const oracle = asAddress(args.oracle, 'oracle');
+      const question = asBytes32(args.question, 'question');
+      const outcomes = asPositiveInt(args.outcomes, 'outcomes');
+      if (outcomes < 2) {
+        throw new Error("Invalid 'outcomes': expected at least 2");
+      }
+      return {
+        argv: ['ctf', 'condition-id', '--oracle', oracle, '--question', question, '--outcomes', String(outcomes)],
+        guardArgs: { oracle, question, outcomes },
+      };
+    },
+  },
+  {
+    name: 'ctf_collection_id',
+    description: 'Compute a CTF collection id from condition id and index set (1 = YES, 2 = NO for binary markets).',
+    mutating: false,
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['condition', 'indexSet'],
+      properties: {
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
+        indexSet: { type: 'integer', minimum: 1 },
+        parentCollection: { type: 'string', pattern: BYTES32_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['condition', 'indexSet', 'parentCollection']);
+      const condition = asBytes32(args.condition, 'condition');
+      const indexSet = asPositiveInt(args.indexSet, 'indexSet');
+      const parentCollection = maybeBytes32(args.parentCollection, 'parentCollection');
+      const argv = ['ctf', 'collection-id', '--condition', condition, '--index-set', String(indexSet)];
+      if (parentCollection !== undefined) argv.push('--parent-collection', parentCollection);
+      return { argv, guardArgs: { condition, indexSet, parentCollection } };
+    },
+  },
+  {
+    name: 'ctf_position_id',
+    description: 'Compute a CTF position id (ERC1155 token id) from collection id and collateral (defaults to USDC).',
+    mutating: false,
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['collection'],
+      properties: {
+        collection: { type: 'string', pattern: BYTES32_PATTERN.source },
+        collateral: { type: 'string', pattern: ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['collection', 'collateral']);
+      const collection = asBytes32(args.collection, 'collection');
+      const collateral = maybeAddress(args.collateral, 'collateral');
+      const argv = ['ctf', 'position-id', '--collection', collection];
+      if (collateral !== undefined) argv.push('--collateral', collateral);
+      return { argv, guardArgs: { collection, collateral } };
+    },
+  },
+  {
+    name: 'bridge_supported_assets',
+    description: 'List chains and tokens supported for bridge deposits.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, []);
+      return {
+        argv: ['bridge', 'supported-assets'],
+        guardArgs: {},
+      };
+    },
+  },
+  {
+    name: 'bridge_status',
+    description: 'Check bridge deposit transaction status for a deposit address (EVM, Solana or Bitcoin).',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: DEPOSIT_ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address']);
+      const address = asDepositAddress(args.address, 'address');
+      return {
+        argv: ['bridge', 'status', address],
+        guardArgs: { address },
+      };
+    },
+  },
+  {
+    name: 'comments_list',
+    description: 'List comments on an event, market or series. Set summarize to get counts, top-liked comments and distinct authors instead of the raw thread.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['entityType', 'entityId'],
+      properties: {
+        entityType: { type: 'string', enum: [...COMMENT_ENTITY_TYPES] },
+        entityId: { type: 'string', pattern: NUMERIC_ID_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        order: { type: 'string', pattern: SORT_FIELD_PATTERN.source },
+        ascending: { type: 'boolean' },
+        summarize: { type: 'boolean' },
+        top: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['entityType', 'entityId', 'limit', 'offset', 'order', 'ascending', 'summarize', 'top']);
+      const entityType = maybeEnum(args.entityType, 'entityType', COMMENT_ENTITY_TYPES);
+      if (entityType === undefined) {
+        throw new Error(`Invalid 'entityType': expected ${COMMENT_ENTITY_TYPES.join('|')}`);
+      }
+      const entityId = asNumericId(args.entityId, 'entityId');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const order = maybeSortField(args.order, 'order');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const summarize = maybeBool(args.summarize, 'summarize');
+      const top = maybePositiveInt(args.top, 'top');
+
+      const argv = ['comments', 'list', '--entity-type', entityType, '--entity-id', entityId];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (order !== undefined) argv.push('--order', order);
+      if (ascending === true) argv.push('--ascending');
+
+      return {
+        argv,
+        guardArgs: { entityType, entityId, limit, offset, order, ascending, summarize },
+        transform: summarize === true ? (output) => summarizeComments(output, top) : undefined,
+      };
+    },
+  },
+  {
+    name: 'comments_get',
+    description: 'Get a single comment by id.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['commentId'],
+      properties: {
+        commentId: { type: 'string', pattern: NUMERIC_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['commentId']);
+      const commentId = asNumericId(args.commentId, 'commentId');
+      return {
+        argv: ['comments', 'get', commentId],
+        guardArgs: { commentId },
+      };
+    },
+  },
+  {
+    name: 'comments_by_user',
+    description: 'List comments written by a wallet address. Set summarize to get counts and top-liked comments instead of the raw list.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+        limit: { type: 'integer', minimum: 1 },
+        offset: { type: 'integer', minimum: 0 },
+        order: { type: 'string', pattern: SORT_FIELD_PATTERN.source },
+        ascending: { type: 'boolean' },
+        summarize: { type: 'boolean' },
+        top: { type: 'integer', minimum: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address', 'limit', 'offset', 'order', 'ascending', 'summarize', 'top']);
+      const address = asAddress(args.address, 'address');
+      const limit = maybePositiveInt(args.limit, 'limit');
+      const offset = maybeNonNegativeInt(args.offset, 'offset');
+      const order = maybeSortField(args.order, 'order');
+      const ascending = maybeBool(args.ascending, 'ascending');
+      const summarize = maybeBool(args.summarize, 'summarize');
+      const top = maybePositiveInt(args.top, 'top');
+
+      const argv = ['comments', 'by-user', address];
+      if (limit !== undefined) argv.push('--limit', String(limit));
+      if (offset !== undefined) argv.push('--offset', String(offset));
+      if (order !== undefined) argv.push('--order', order);
+      if (ascending === true) argv.push('--ascending');
+
+      return {
+        argv,
+        guardArgs: { address, limit, offset, order, ascending, summarize },
+        transform: summarize === true ? (output) => summarizeComments(output, top) : undefined,
+      };
+    },
+  },
+  {
+    name: 'profiles_get',
+    description: 'Get a public Polymarket profile by wallet address.',
+    mutating: false,
+    inputSchema: {
+      type: 'object',
+      required: ['address'],
+      properties: {
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['address']);
+      const address = asAddress(args.address, 'address');
+      return {
+        argv: ['profiles', 'get', address],
+        guardArgs: { address },
+      };
+    },
+  },
+];
+
+const ACCOUNT_READ_TOOLS: ToolSpec[] = [
   {
-    name: 'markets_list',
-    description: 'List markets with optional filters.',
+    name: 'clob_orders',
+    description: 'List your open CLOB orders (requires configured wallet).',
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
       properties: {
-        limit: { type: 'number', minimum: 1 },
-        active: { type: 'boolean' },
-        closed: { type: 'boolean' },
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+        asset: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['limit', 'active', 'closed']);
-      const limit = maybePositiveNumber(args.limit, 'limit');
-      const active = maybeBool(args.active, 'active');
-      const closed = maybeBool(args.closed, 'closed');
-      const argv = ['markets', 'list'];
-      if (limit !== undefined) argv.push('--limit', String(limit));
-      if (active !== undefined) argv.push('--active', toFlagBool(active));
-      if (closed !== undefined) argv.push('--closed', toFlagBool(closed));
-      return { argv, guardArgs: { ...args } };
+      assertAllowedFields(args, ['market', 'asset', 'cursor']);
+      const market = maybeBytes32(args.market, 'market');
+      const asset = maybeTokenId(args.asset, 'asset');
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'orders'];
+      if (market !== undefined) argv.push('--market', market);
+      if (asset !== undefined) argv.push('--asset', asset);
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { market, asset, cursor } };
     },
   },
   {
-    name: 'markets_search',
-    description: 'Search markets by free text query.',
+    name: 'clob_order',
+    description: 'Get one of your CLOB orders by id (requires configured wallet).',
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
-      required: ['query'],
+      required: ['orderId'],
       properties: {
-        query: { type: 'string' },
-        limit: { type: 'number', minimum: 1 },
+        orderId: { type: 'string', pattern: BYTES32_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['query', 'limit']);
-      const query = asString(args.query, 'query');
-      const limit = maybePositiveNumber(args.limit, 'limit');
-      const argv = ['markets', 'search', query];
-      if (limit !== undefined) argv.push('--limit', String(limit));
-      return { argv, guardArgs: { query, limit } };
+      assertAllowedFields(args, ['orderId']);
+      const orderId = asBytes32(args.orderId, 'orderId');
+      return {
+        argv: ['clob', 'order', orderId],
+        guardArgs: { orderId },
+      };
     },
   },
   {
-    name: 'markets_get',
-    description: 'Get market details by id or slug.',
+    name: 'clob_trades',
+    description: 'List your CLOB trade fills (requires configured wallet).',
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
-      required: ['market'],
       properties: {
-        market: { type: 'string' },
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+        asset: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['market']);
-      const market = asString(args.market, 'market');
+      assertAllowedFields(args, ['market', 'asset', 'cursor']);
+      const market = maybeBytes32(args.market, 'market');
+      const asset = maybeTokenId(args.asset, 'asset');
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'trades'];
+      if (market !== undefined) argv.push('--market', market);
+      if (asset !== undefined) argv.push('--asset', asset);
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { market, asset, cursor } };
+    },
+  },
+  {
+    name: 'clob_balance',
+    description: 'Get your USDC (collateral) or conditional token balance and allowance (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        assetType: { type: 'string', enum: ['collateral', 'conditional'] },
+        token: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['assetType', 'token']);
+      const assetType = asAssetType(args.assetType ?? 'collateral', 'assetType');
+      const token = maybeTokenId(args.token, 'token');
+      if (assetType === 'conditional' && token === undefined) {
+        throw new Error("Invalid 'token': required when assetType is 'conditional'");
+      }
+      if (assetType === 'collateral' && token !== undefined) {
+        throw new Error("Invalid 'token': only allowed when assetType is 'conditional'");
+      }
+      const argv = ['clob', 'balance', '--asset-type', assetType];
+      if (token !== undefined) argv.push('--token', token);
+      return { argv, guardArgs: { assetType, token } };
+    },
+  },
+  {
+    name: 'clob_account_status',
+    description: 'Check your CLOB account status (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    inputSchema: {
+      type: 'object',
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, []);
       return {
-        argv: ['markets', 'get', market],
-        guardArgs: { market },
+        argv: ['clob', 'account-status'],
+        guardArgs: {},
       };
     },
   },
   {
-    name: 'clob_book',
-    description: 'Get order book for token id.',
+    name: 'clob_rewards',
+    description: 'List your liquidity reward earnings per market for a day (requires configured wallet).',
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
-      required: ['token'],
+      required: ['date'],
       properties: {
-        token: { type: 'string' },
+        date: { type: 'string', pattern: DATE_PATTERN.source },
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['token']);
-      const token = asString(args.token, 'token');
+      assertAllowedFields(args, ['date', 'cursor']);
+      const date = asDate(args.date, 'date');
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'rewards', '--date', date];
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { date, cursor } };
+    },
+  },
+  {
+    name: 'clob_earnings',
+    description: 'Get your total liquidity reward earnings for a day (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['date'],
+      properties: {
+        date: { type: 'string', pattern: DATE_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['date']);
+      const date = asDate(args.date, 'date');
       return {
-        argv: ['clob', 'book', token],
-        guardArgs: { token },
+        argv: ['clob', 'earnings', '--date', date],
+        guardArgs: { date },
       };
     },
   },
   {
-    name: 'clob_midpoint',
-    description: 'Get midpoint price for token id.',
+    name: 'clob_earnings_markets',
+    description: 'List your reward earnings for a day together with each market\'s reward config (requires configured wallet).',
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
-      required: ['token'],
+      required: ['date'],
       properties: {
-        token: { type: 'string' },
+        date: { type: 'string', pattern: DATE_PATTERN.source },
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['token']);
-      const token = asString(args.token, 'token');
+      assertAllowedFields(args, ['date', 'cursor']);
+      const date = asDate(args.date, 'date');
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'earnings-markets', '--date', date];
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { date, cursor } };
+    },
+  },
+  {
+    name: 'clob_current_rewards',
+    description: 'List active liquidity reward programs: max spread, min size and daily rate per market (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['cursor']);
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'current-rewards'];
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { cursor } };
+    },
+  },
+  {
+    name: 'clob_market_reward',
+    description: 'Get the liquidity reward program for one market by condition id (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['condition'],
+      properties: {
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
+        cursor: { type: 'string', pattern: CURSOR_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['condition', 'cursor']);
+      const condition = asBytes32(args.condition, 'condition');
+      const cursor = maybeCursor(args.cursor, 'cursor');
+      const argv = ['clob', 'market-reward', condition];
+      if (cursor !== undefined) argv.push('--cursor', cursor);
+      return { argv, guardArgs: { condition, cursor } };
+    },
+  },
+  {
+    name: 'clob_order_scoring',
+    description: 'Check whether one of your resting orders is currently scoring liquidity rewards (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      required: ['orderId'],
+      properties: {
+        orderId: { type: 'string', pattern: BYTES32_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['orderId']);
+      const orderId = asBytes32(args.orderId, 'orderId');
       return {
-        argv: ['clob', 'midpoint', token],
-        guardArgs: { token },
+        argv: ['clob', 'order-scoring', orderId],
+        guardArgs: { orderId },
       };
     },
   },
   {
-    name: 'clob_price',
-    description: 'Get clob price for token/side.',
+    name: 'clob_orders_scoring',
+    description: `Check up to ${MAX_SCORING_ORDERS} resting orders for reward scoring in one call; returns a map of order id to boolean (requires configured wallet).`,
     mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
     inputSchema: {
       type: 'object',
-      required: ['token', 'side'],
+      required: ['orderIds'],
       properties: {
-        token: { type: 'string' },
-        side: { type: 'string', enum: ['buy', 'sell'] },
+        orderIds: { type: 'array', items: { type: 'string', pattern: BYTES32_PATTERN.source }, minItems: 1, maxItems: MAX_SCORING_ORDERS },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['token', 'side']);
-      const token = asString(args.token, 'token');
-      const side = asSide(args.side, 'side');
+      assertAllowedFields(args, ['orderIds']);
+      const orderIds = asIdList(args.orderIds, 'orderIds', 'order id', MAX_SCORING_ORDERS, asBytes32);
       return {
-        argv: ['clob', 'price', token, '--side', side],
-        guardArgs: { token, side },
+        argv: ['clob', 'orders-scoring', orderIds.join(',')],
+        guardArgs: { orderIds, order_count: orderIds.length },
       };
     },
   },
   {
-    name: 'portfolio_positions',
-    description: 'Get public portfolio positions for wallet address.',
+    name: 'rewards_summary',
+    description: 'Join your open orders with active reward programs and scoring status: per-order eligibility, per-market counts and totals (requires configured wallet).',
+    mutating: false,
+    category: 'authenticated_read',
+    redactOutput: false,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['market']);
+      const market = maybeBytes32(args.market, 'market');
+      const ordersArgv = ['clob', 'orders'];
+      if (market !== undefined) ordersArgv.push('--market', market);
+
+      return {
+        argv: ordersArgv,
+        guardArgs: { market },
+        async compose(run) {
+          const orders = await collectPages(run, ordersArgv, REWARDS_SUMMARY_MAX_PAGES);
+          const rewards = await collectPages(run, ['clob', 'current-rewards'], REWARDS_SUMMARY_MAX_PAGES);
+          const ids = Array.from(new Set(
+            orders.rows
+              .map((order) => order.id)
+              .filter((id): id is string => typeof id === 'string' && id.length > 0 && !id.includes(',')),
+          ));
+
+          const scoring: Record<string, unknown> = {};
+          for (let i = 0; i < ids.length; i += MAX_SCORING_ORDERS) {
+            const chunk = ids.slice(i, i + MAX_SCORING_ORDERS);
+            const result = await run(['clob', 'orders-scoring', chunk.join(',')]);
+            if (result && typeof result === 'object' && !Array.isArray(result)) {
+              Object.assign(scoring, result);
+            }
+          }
+
+          return {
+            ...summarizeRewards(orders.rows, rewards.rows, scoring),
+            truncated: orders.truncated || rewards.truncated,
+          };
+        },
+      };
+    },
+  },
+  {
+    name: 'bridge_deposit_address',
+    description: 'Get bridge deposit addresses (EVM, Solana, Bitcoin) that fund a Polymarket wallet. Sensitive: gated by policy.',
     mutating: false,
+    category: 'sensitive_read',
     inputSchema: {
       type: 'object',
       required: ['address'],
       properties: {
-        address: { type: 'string' },
+        address: { type: 'string', pattern: ADDRESS_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
       assertAllowedFields(args, ['address']);
-      const address = asString(args.address, 'address');
+      const address = asAddress(args.address, 'address');
       return {
-        argv: ['data', 'positions', address],
+        argv: ['bridge', 'deposit', address],
         guardArgs: { address },
       };
     },
@@ -255,27 +1892,27 @@ const READ_ONLY_TOOLS: ToolSpec[] = [
 const MUTATING_TOOLS: ToolSpec[] = [
   {
     name: 'order_create_limit',
-    description: 'Create a limit order on CLOB.',
+    description: 'Create a limit order on CLOB by token id, or by market slug/id and outcome name.',
     mutating: true,
+    resolveOutcome: true,
     inputSchema: {
       type: 'object',
-      required: ['token', 'side', 'price', 'size'],
+      required: ['side', 'price', 'size'],
       properties: {
-        token: { type: 'string' },
+        ...OUTCOME_TARGET_PROPERTIES,
         side: { type: 'string', enum: ['buy', 'sell'] },
-        price: { type: 'number', minimum: 0 },
-        size: { type: 'number', minimum: 0 },
+        price: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+        size: { type: 'number', exclusiveMinimum: 0 },
         postOnly: { type: 'boolean' },
         orderType: { type: 'string', enum: ['GTC', 'FOK', 'GTD', 'FAK'] },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['token', 'side', 'price', 'size', 'postOnly', 'orderType']);
-      const token = asString(args.token, 'token');
+      assertAllowedFields(args, ['token', 'market', 'outcome', 'side', 'price', 'size', 'postOnly', 'orderType']);
       const side = asSide(args.side, 'side');
-      const price = asPositiveNumber(args.price, 'price');
-      const size = asPositiveNumber(args.size, 'size');
+      const { market, outcome } = asOutcomeTarget(args);
+      const { token, price, size, amount_usd: amountUsd } = asLimitLeg(args, '');
       const postOnly = maybeBool(args.postOnly, 'postOnly');
       const orderType = maybeString(args.orderType, 'orderType');
 
@@ -296,12 +1933,12 @@ const MUTATING_TOOLS: ToolSpec[] = [
         argv.push('--order-type', asOrderType(orderType));
       }
 
-      const amountUsd = Number((price * size).toFixed(8));
-
       return {
         argv,
         guardArgs: {
           token,
+          market,
+          outcome,
           side,
           price,
           size,
@@ -312,39 +1949,120 @@ const MUTATING_TOOLS: ToolSpec[] = [
       };
     },
   },
+  {
+    name: 'order_batch_limit',
+    description: 'Create several limit orders on CLOB in one submission (same side and order type for every leg).',
+    mutating: true,
+    inputSchema: {
+      type: 'object',
+      required: ['side', 'legs'],
+      properties: {
+        side: { type: 'string', enum: ['buy', 'sell'] },
+        orderType: { type: 'string', enum: ['GTC', 'FOK', 'GTD', 'FAK'] },
+        legs: {
+          type: 'array',
+          minItems: 1,
+          maxItems: MAX_BATCH_ORDER_LEGS,
+          items: {
+            type: 'object',
+            required: ['token', 'price', 'size'],
+            properties: {
+              token: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+              price: { type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 },
+              size: { type: 'number', exclusiveMinimum: 0 },
+            },
+            additionalProperties: false,
+          },
+        },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['side', 'orderType', 'legs']);
+      const side = asSide(args.side, 'side');
+      const rawOrderType = maybeString(args.orderType, 'orderType');
+      const orderType = rawOrderType === undefined ? undefined : asOrderType(rawOrderType);
+      const legs = asLimitLegs(args.legs, 'legs');
+
+      const argv = [
+        'clob',
+        'post-orders',
+        '--tokens', legs.map((leg) => leg.token).join(','),
+        '--side', side,
+        '--prices', legs.map((leg) => String(leg.price)).join(','),
+        '--sizes', legs.map((leg) => String(leg.size)).join(','),
+      ];
+
+      if (orderType !== undefined) {
+        argv.push('--order-type', orderType);
+      }
+
+      const prices = legs.map((leg) => leg.price);
+      const amountUsd = Number(legs.reduce((sum, leg) => sum + leg.amount_usd, 0).toFixed(8));
+
+      return {
+        argv,
+        guardArgs: {
+          side,
+          orderType,
+          legs,
+          leg_count: legs.length,
+          amount_usd: amountUsd,
+          max_price: Math.max(...prices),
+          min_price: Math.min(...prices),
+        },
+      };
+    },
+  },
   {
     name: 'order_market',
-    description: 'Create a market order on CLOB.',
+    description: 'Create a market order on CLOB by token id, or by market slug/id and outcome name.',
     mutating: true,
+    resolveOutcome: true,
     inputSchema: {
       type: 'object',
-      required: ['token', 'side', 'amount'],
+      required: ['side', 'amount'],
       properties: {
-        token: { type: 'string' },
+        ...OUTCOME_TARGET_PROPERTIES,
         side: { type: 'string', enum: ['buy', 'sell'] },
-        amount: { type: 'number', minimum: 0 },
+        amount: { type: 'number', exclusiveMinimum: 0 },
+        orderType: { type: 'string', enum: ['FOK', 'FAK'] },
       },
       additionalProperties: false,
     },
     build(args) {
-      assertAllowedFields(args, ['token', 'side', 'amount']);
-      const token = asString(args.token, 'token');
+      assertAllowedFields(args, ['token', 'market', 'outcome', 'side', 'amount', 'orderType']);
+      const { token, market, outcome } = asOutcomeTarget(args);
       const side = asSide(args.side, 'side');
       const amount = asPositiveNumber(args.amount, 'amount');
+      const rawOrderType = maybeString(args.orderType, 'orderType');
+      const orderType = rawOrderType === undefined ? undefined : asOrderType(rawOrderType);
+      if (orderType !== undefined && orderType !== 'FOK' && orderType !== 'FAK') {
+        throw new Error("Invalid 'orderType': expected FOK|FAK for market orders");
+      }
+
+      const argv = [
+        'clob',
+        'market-order',
+        '--token', token,
+        '--side', side,
+        '--amount', String(amount),
+      ];
+
+      if (orderType !== undefined) {
+        argv.push('--order-type', orderType);
+      }
 
       return {
-        argv: [
-          'clob',
-          'market-order',
-          '--token', token,
-          '--side', side,
-          '--amount', String(amount),
-        ],
+        argv,
         guardArgs: {
           token,
+          market,
+          outcome,
           side,
           amount,
           amount_usd: amount,
+          orderType,
         },
       };
     },
@@ -357,19 +2075,71 @@ const MUTATING_TOOLS: ToolSpec[] = [
       type: 'object',
       required: ['orderId'],
       properties: {
-        orderId: { type: 'string' },
+        orderId: { type: 'string', pattern: BYTES32_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
       assertAllowedFields(args, ['orderId']);
-      const orderId = asString(args.orderId, 'orderId');
+      const orderId = asBytes32(args.orderId, 'orderId');
       return {
         argv: ['clob', 'cancel', orderId],
         guardArgs: { orderId },
       };
     },
   },
+  {
+    name: 'order_cancel_orders',
+    description: 'Cancel a list of specific orders.',
+    mutating: true,
+    inputSchema: {
+      type: 'object',
+      required: ['orderIds'],
+      properties: {
+        orderIds: { type: 'array', items: { type: 'string', pattern: BYTES32_PATTERN.source }, minItems: 1, maxItems: MAX_BATCH_CANCELS },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['orderIds']);
+      const orderIds = asIdList(args.orderIds, 'orderIds', 'order id', MAX_BATCH_CANCELS, asBytes32);
+      return {
+        argv: ['clob', 'cancel-orders', orderIds.join(',')],
+        guardArgs: {
+          orderIds,
+          order_count: orderIds.length,
+        },
+      };
+    },
+  },
+  {
+    name: 'order_cancel_market',
+    description: 'Cancel all open orders in one market (condition id) and/or one asset (token id).',
+    mutating: true,
+    inputSchema: {
+      type: 'object',
+      properties: {
+        market: { type: 'string', pattern: BYTES32_PATTERN.source },
+        asset: { type: 'string', pattern: TOKEN_ID_PATTERN.source },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['market', 'asset']);
+      const market = maybeBytes32(args.market, 'market');
+      const asset = maybeTokenId(args.asset, 'asset');
+      if (market === undefined && asset === undefined) {
+        throw new Error("Invalid arguments: expected 'market' and/or 'asset' (use order_cancel_all to cancel everything)");
+      }
+      const argv = ['clob', 'cancel-market'];
+      if (market !== undefined) argv.push('--market', market);
+      if (asset !== undefined) argv.push('--asset', asset);
+      return {
+        argv,
+        guardArgs: { market, asset },
+      };
+    },
+  },
   {
     name: 'order_cancel_all',
     description: 'Cancel all open orders.',
@@ -410,14 +2180,14 @@ const MUTATING_TOOLS: ToolSpec[] = [
       type: 'object',
       required: ['condition', 'amount'],
       properties: {
-        condition: { type: 'string' },
-        amount: { type: 'number', minimum: 0 },
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
+        amount: { type: 'number', exclusiveMinimum: 0 },
       },
       additionalProperties: false,
     },
     build(args) {
       assertAllowedFields(args, ['condition', 'amount']);
-      const condition = asString(args.condition, 'condition');
+      const condition = asBytes32(args.condition, 'condition');
       const amount = asPositiveNumber(args.amount, 'amount');
       return {
         argv: ['ctf', 'split', '--condition', condition, '--amount', String(amount)],
@@ -437,14 +2207,14 @@ const MUTATING_TOOLS: ToolSpec[] = [
       type: 'object',
       required: ['condition', 'amount'],
       properties: {
-        condition: { type: 'string' },
-        amount: { type: 'number', minimum: 0 },
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
+        amount: { type: 'number', exclusiveMinimum: 0 },
       },
       additionalProperties: false,
     },
     build(args) {
       assertAllowedFields(args, ['condition', 'amount']);
-      const condition = asString(args.condition, 'condition');
+      const condition = asBytes32(args.condition, 'condition');
       const amount = asPositiveNumber(args.amount, 'amount');
       return {
         argv: ['ctf', 'merge', '--condition', condition, '--amount', String(amount)],
@@ -464,22 +2234,55 @@ const MUTATING_TOOLS: ToolSpec[] = [
       type: 'object',
       required: ['condition'],
       properties: {
-        condition: { type: 'string' },
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
       },
       additionalProperties: false,
     },
     build(args) {
       assertAllowedFields(args, ['condition']);
-      const condition = asString(args.condition, 'condition');
+      const condition = asBytes32(args.condition, 'condition');
       return {
         argv: ['ctf', 'redeem', '--condition', condition],
         guardArgs: { condition },
       };
     },
   },
+  {
+    name: 'ctf_redeem_neg_risk',
+    description: 'Redeem neg-risk conditional tokens, one amount per outcome.',
+    mutating: true,
+    inputSchema: {
+      type: 'object',
+      required: ['condition', 'amounts'],
+      properties: {
+        condition: { type: 'string', pattern: BYTES32_PATTERN.source },
+        amounts: { type: 'array', items: { type: 'number', minimum: 0 }, minItems: 1 },
+      },
+      additionalProperties: false,
+    },
+    build(args) {
+      assertAllowedFields(args, ['condition', 'amounts']);
+      const condition = asBytes32(args.condition, 'condition');
+      if (!Array.isArray(args.amounts) || args.amounts.length === 0) {
+        throw new Error("Invalid 'amounts': expected non-empty array of numbers");
+      }
+      const amounts = args.amounts.map((value, index) => asNonNegativeNumber(value, `amounts[${index}]`));
+      if (amounts.every((amount) => amount === 0)) {
+        throw new Error("Invalid 'amounts': expected at least one positive amount");
+      }
+      return {
+        argv: ['ctf', 'redeem-neg-risk', '--condition', condition, '--amounts', amounts.map(String).join(',')],
+        guardArgs: {
+          condition,
+          amounts,
+          total_amount: Number(amounts.reduce((sum, amount) => sum + amount, 0).toFixed(8)),
+        },
+      };
+    },
+  },
 ];
 
-export const TOOL_SPECS: ToolSpec[] = [...READ_ONLY_TOOLS, ...MUTATING_TOOLS];
+export const TOOL_SPECS: ToolSpec[] = [...READ_ONLY_TOOLS, ...ACCOUNT_READ_TOOLS, ...MUTATING_TOOLS];
 
 const TOOL_MAP = new Map(TOOL_SPECS.map((tool) => [tool.name, tool]));
 
@@ -487,6 +2290,10 @@ export function getToolSpec(name: string): ToolSpec | undefined {
   return TOOL_MAP.get(name);
 }
 
+export function toolCategory(tool: ToolSpec): ToolCategory {
+  return tool.category ?? (tool.mutating ? 'mutating' : 'public_read');
+}
+
 export function listTools(): ToolSpec[] {
   return TOOL_SPECS;
 }
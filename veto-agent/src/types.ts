@@ -1,6 +1,17 @@
+import type { BudgetLimit } from './budget.js';
+import type { RateLimitConfig } from './ratelimit.js';
+
 export const POLICY_PROFILES = ['defaults', 'conservative', 'agent', 'user'] as const;
 export type PolicyProfile = (typeof POLICY_PROFILES)[number];
 export type McpTransport = 'stdio' | 'sse';
+export type ContextFailureMode = 'continue' | 'reject';
+
+export interface ContextSourceConfig {
+  enabled: boolean;
+  timeoutMs: number;
+  /** `continue` guards with null fields; `reject` fails the call. */
+  onFailure: ContextFailureMode;
+}
 
 export interface SidecarConfig {
   polymarket: {
@@ -18,6 +29,53 @@ export interface SidecarConfig {
     port: number;
     path: string;
   };
+  preflight: {
+    enabled: boolean;
+    snapToTick: boolean;
+  };
+  context: {
+    book: ContextSourceConfig;
+    market: ContextSourceConfig;
+    gamma: ContextSourceConfig;
+  };
+  exposure: {
+    enabled: boolean;
+    /** `auto` reads the wallet from `wallet show`. */
+    address: string;
+    timeoutMs: number;
+    onFailure: ContextFailureMode;
+  };
+  budgets: {
+    enabled: boolean;
+    path: string;
+    limits: BudgetLimit[];
+  };
+  rateLimits: {
+    enabled: boolean;
+    /** Orders placed per minute across all order tools; batch legs count one each. */
+    ordersPerMinute: number | null;
+    classes: Partial<Record<'mutating' | 'read', RateLimitConfig>>;
+    profiles: Partial<Record<PolicyProfile, RateLimitConfig>>;
+    tools: Record<string, RateLimitConfig>;
+  };
+  idempotency: {
+    enabled: boolean;
+    path: string;
+    /** How long an identical call without an `idempotencyKey` counts as a retry. */
+    windowSeconds: number;
+    /** How long an explicit `idempotencyKey` is remembered. */
+    keyTtlSeconds: number;
+  };
+  paper: {
+    enabled: boolean;
+    path: string;
+    startingCashUsd: number;
+    gtdTtlSeconds: number;
+    pollIntervalMs: number;
+  };
+  customTools: {
+    path: string;
+  };
   veto: {
     configDir: string;
     policyProfile: PolicyProfile;
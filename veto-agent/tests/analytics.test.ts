@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateCandles,
+  parseBook,
+  parsePriceHistory,
+  summarizeComments,
+  summarizeRewards,
+  summarizeSeries,
+  walkBook,
+} from '../src/analytics.js';
+
+const HISTORY = [
+  { timestamp: 3_600, price: '0.50' },
+  { timestamp: 5_400, price: '0.60' },
+  { timestamp: 7_200, price: '0.45' },
+  { timestamp: 9_000, price: '0.55' },
+  { timestamp: 10_800, price: '0.40' },
+];
+
+describe('price history analytics', () => {
+  it('parses CLI rows and drops malformed entries', () => {
+    const points = parsePriceHistory([
+      { timestamp: 20, price: '0.2' },
+      { timestamp: 10, price: '0.1' },
+      { timestamp: 'bad', price: '0.3' },
+      null,
+    ]);
+
+    expect(points).toEqual([
+      { timestamp: 10, price: 0.1 },
+      { timestamp: 20, price: 0.2 },
+    ]);
+  });
+
+  it('aggregates points into aligned OHLC candles', () => {
+    const candles = aggregateCandles(parsePriceHistory(HISTORY), '1h');
+
+    expect(candles).toEqual([
+      { start: 3_600, end: 7_200, open: 0.5, high: 0.6, low: 0.5, close: 0.6, points: 2 },
+      { start: 7_200, end: 10_800, open: 0.45, high: 0.55, low: 0.45, close: 0.55, points: 2 },
+      { start: 10_800, end: 14_400, open: 0.4, high: 0.4, low: 0.4, close: 0.4, points: 1 },
+    ]);
+  });
+
+  it('computes change, drawdown and volatility over the window', () => {
+    const summary = summarizeSeries(parsePriceHistory(HISTORY));
+
+    expect(summary.points).toBe(5);
+    expect(summary.open).toBe(0.5);
+    expect(summary.close).toBe(0.4);
+    expect(summary.high).toBe(0.6);
+    expect(summary.low).toBe(0.4);
+    expect(summary.changePct).toBe(-20);
+    expect(summary.maxDrawdownPct).toBeCloseTo(33.3333, 4);
+    expect(summary.realizedVolatility).toBeGreaterThan(0);
+    expect(summary.annualizedVolatility).toBeGreaterThan(summary.realizedVolatility!);
+  });
+
+  it('returns empty summary for empty history', () => {
+    const summary = summarizeSeries([]);
+    expect(summary.points).toBe(0);
+    expect(summary.changePct).toBeNull();
+    expect(summary.realizedVolatility).toBeNull();
+  });
+});
+
+describe('comment summaries', () => {
+  it('counts comments, ranks by reactions and collects distinct authors', () => {
+    const summary = summarizeComments([
+      { id: '1', body: 'Yes is mispriced', userAddress: '0xAAA', profile: { name: 'alice' }, reactionCount: 3 },
+      { id: '2', body: 'No way', userAddress: '0xbbb', profile: { pseudonym: 'Quiet-Fox' }, reactionCount: 10 },
+      { id: '3', body: 'x'.repeat(400), userAddress: '0xaaa', reactionCount: 1 },
+      { id: '4', body: 'no reactions', user_address: '0xccc' },
+    ], 2);
+
+    expect(summary.count).toBe(4);
+    expect(summary.totalReactions).toBe(14);
+    expect(summary.topLiked.map((comment) => comment.id)).toEqual(['2', '1']);
+    expect(summary.topLiked[0]!.author).toBe('Quiet-Fox');
+    expect(summary.authors).toEqual([
+      { address: '0xAAA', name: 'alice', comments: 2 },
+      { address: '0xbbb', name: 'Quiet-Fox', comments: 1 },
+      { address: '0xccc', name: null, comments: 1 },
+    ]);
+  });
+
+  it('truncates long comment bodies', () => {
+    const summary = summarizeComments([{ id: '1', body: 'x'.repeat(400), reactionCount: 1 }]);
+    expect(summary.topLiked[0]!.body.length).toBe(281);
+  });
+});
+
+describe('reward summaries', () => {
+  it('leaves eligibility unknown for orders outside reward programs', () => {
+    const summary = summarizeRewards(
+      [{ id: 'o1', market: '0xbb', original_size: '5', size_matched: '0' }],
+      [],
+      {},
+    );
+
+    expect(summary.orders[0]).toMatchObject({ id: 'o1', scoring: null, rewardProgram: null, meetsMinSize: null });
+    expect(summary.totals).toEqual({ openOrders: 1, scoringOrders: 0, ordersInRewardMarkets: 0 });
+  });
+});
+
+describe('order book walking', () => {
+  const book = parseBook({
+    market: '0x01',
+    bids: [{ price: '0.38', size: '50' }, { price: '0.40', size: '100' }, { price: 'bad', size: '1' }],
+    asks: [{ price: '0.50', size: '10' }, { price: '0.42', size: '100' }, { price: '0.45', size: '200' }],
+  });
+
+  it('sorts levels best first and derives the midpoint', () => {
+    expect(book.bids.map((level) => level.price)).toEqual([0.4, 0.38]);
+    expect(book.asks.map((level) => level.price)).toEqual([0.42, 0.45, 0.5]);
+    expect(book.midpoint).toBe(0.41);
+  });
+
+  it('walks asks for a USD buy and reports VWAP, worst price and slippage', () => {
+    const quote = walkBook(book, 'buy', { amountUsd: 87 });
+
+    expect(quote.fills).toEqual([{ price: 0.42, size: 100 }, { price: 0.45, size: 100 }]);
+    expect(quote.filledSize).toBe(200);
+    expect(quote.vwap).toBe(0.435);
+    expect(quote.worstPrice).toBe(0.45);
+    expect(quote.slippage).toBe(0.025);
+    expect(quote.levelsConsumed).toBe(2);
+    expect(quote.fullyFilled).toBe(true);
+    expect(quote.unfilledUsd).toBe(0);
+  });
+
+  it('reports the unfilled remainder when a share size exhausts the book', () => {
+    const quote = walkBook(book, 'sell', { size: 200 });
+
+    expect(quote.filledSize).toBe(150);
+    expect(quote.filledUsd).toBe(59);
+    expect(quote.slippage).toBe(0.016667);
+    expect(quote.fullyFilled).toBe(false);
+    expect(quote.unfilledSize).toBe(50);
+    expect(quote.unfilledUsd).toBeNull();
+    expect(quote.depth).toEqual({ levels: 2, size: 150, usd: 59 });
+  });
+
+  it('returns no prices for an empty side', () => {
+    const quote = walkBook(parseBook({ bids: [], asks: [] }), 'buy', { size: 5 });
+    expect(quote.vwap).toBeNull();
+    expect(quote.midpoint).toBeNull();
+    expect(quote.unfilledSize).toBe(5);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { SpendLedger, type BudgetLimit } from '../src/budget.js';
+
+function withLedgerPath(run: (path: string) => void): () => void {
+  return () => {
+    const dir = mkdtempSync(join(tmpdir(), 'polymarket-spend-'));
+    try {
+      run(join(dir, 'spend.json'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+const NOW = new Date('2026-05-10T12:00:00Z');
+const hoursAgo = (hours: number): Date => new Date(NOW.getTime() - hours * 3_600_000);
+
+describe('spend ledger', () => {
+  it('sums spend over rolling day and week windows and survives reloads', withLedgerPath((path) => {
+    const limits: BudgetLimit[] = [
+      { window: 'day', scope: 'total', maxUsd: 50 },
+      { window: 'week', scope: 'total', maxUsd: 100 },
+    ];
+    const ledger = new SpendLedger(path, limits);
+    ledger.reserve([{ tool: 'order_market', market: 'a', amountUsd: 60 }], hoursAgo(48));
+    ledger.reserve([{ tool: 'order_market', market: 'a', amountUsd: 30 }], hoursAgo(2));
+
+    const reloaded = new SpendLedger(path, limits);
+    expect(reloaded.check([{ tool: 'order_market', market: 'b', amountUsd: 10 }], NOW)).toEqual([]);
+    expect(reloaded.check([{ tool: 'order_market', market: 'b', amountUsd: 25 }], NOW)).toEqual([
+      { window: 'day', scope: 'total', key: null, maxUsd: 50, usedUsd: 30, remainingUsd: 20, requestedUsd: 25 },
+      { window: 'week', scope: 'total', key: null, maxUsd: 100, usedUsd: 90, remainingUsd: 10, requestedUsd: 25 },
+    ]);
+  }));
+
+  it('keys market and tool limits, and sums requests that share a key', withLedgerPath((path) => {
+    const ledger = new SpendLedger(path, [
+      { window: 'day', scope: 'market', maxUsd: 20 },
+      { window: 'day', scope: 'tool', tool: 'order_market', maxUsd: 5 },
+    ]);
+
+    const violations = ledger.check([
+      { tool: 'order_batch_limit', market: 'a', amountUsd: 12 },
+      { tool: 'order_batch_limit', market: 'a', amountUsd: 12 },
+      { tool: 'order_batch_limit', market: 'b', amountUsd: 12 },
+      { tool: 'order_market', market: 'c', amountUsd: 6 },
+    ], NOW);
+    expect(violations.map((violation) => [violation.scope, violation.key, violation.requestedUsd])).toEqual([
+      ['market', 'a', 24],
+      ['tool', 'order_market', 6],
+    ]);
+  }));
+
+  it('releases reservations and reports usage per key', withLedgerPath((path) => {
+    const ledger = new SpendLedger(path, [
+      { window: 'day', scope: 'total', maxUsd: 50 },
+      { window: 'day', scope: 'tool', tool: 'ctf_split', maxUsd: 10 },
+    ]);
+    const [kept] = ledger.reserve([{ tool: 'order_market', market: 'a', amountUsd: 20 }], hoursAgo(1));
+    const released = ledger.reserve([{ tool: 'order_market', market: 'a', amountUsd: 15 }], hoursAgo(1));
+    ledger.release(released);
+
+    expect(kept).toBeTypeOf('string');
+    expect(ledger.status(NOW)).toEqual([
+      { window: 'day', scope: 'total', key: null, maxUsd: 50, usedUsd: 20, remainingUsd: 30 },
+      { window: 'day', scope: 'tool', key: 'ctf_split', maxUsd: 10, usedUsd: 0, remainingUsd: 10 },
+    ]);
+  }));
+
+  it('refuses to load a corrupt ledger', withLedgerPath((path) => {
+    writeFileSync(path, '[]');
+    expect(() => new SpendLedger(path, [])).toThrow(`Invalid spend ledger '${path}': unsupported format`);
+  }));
+});
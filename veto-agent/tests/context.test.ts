@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { parseBook } from '../src/analytics.js';
+import { bookContext, CONTEXT_FIELDS, emptyContext, gammaContext, marketContext } from '../src/context.js';
+
+describe('market context', () => {
+  it('reads spread, midpoint and top-of-book depth from the book', () => {
+    const book = parseBook({
+      bids: [{ price: '0.38', size: '10' }, { price: '0.4', size: '25' }],
+      asks: [{ price: '0.47', size: '5' }, { price: '0.44', size: '60' }],
+    });
+
+    expect(bookContext(book)).toEqual({
+      midpoint: 0.42,
+      spread: 0.04,
+      best_bid: 0.4,
+      best_ask: 0.44,
+      best_bid_depth: 25,
+      best_ask_depth: 60,
+    });
+    expect(bookContext(parseBook({ bids: [], asks: [] }))).toEqual(emptyContext('book'));
+  });
+
+  it('reads question, tags and time to resolution from the CLOB market', () => {
+    const now = new Date('2026-03-01T00:00:00Z');
+    expect(marketContext({
+      question: 'Will it rain?',
+      market_slug: 'will-it-rain',
+      tags: ['Weather', 7],
+      end_date_iso: '2026-03-02T06:00:00Z',
+    }, now)).toEqual({
+      question: 'Will it rain?',
+      market_slug: 'will-it-rain',
+      tags: ['Weather'],
+      end_date: '2026-03-02T06:00:00Z',
+      hours_to_end: 30,
+    });
+    expect(marketContext({ end_date_iso: '2026-02-28T12:00:00Z' }, now).hours_to_end).toBe(-12);
+    expect(marketContext(null, now)).toEqual(emptyContext('market'));
+  });
+
+  it('reads category, liquidity and volume from gamma', () => {
+    expect(gammaContext({ category: 'Sports', liquidity: '1500.25', volumeNum: 9000 })).toEqual({
+      category: 'Sports',
+      liquidity: 1500.25,
+      volume: 9000,
+    });
+    expect(Object.keys(gammaContext({}))).toEqual(CONTEXT_FIELDS.gamma);
+  });
+});
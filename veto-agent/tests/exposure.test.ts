@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXPOSURE_FIELDS,
+  exposureFields,
+  parseOpenOrders,
+  parsePortfolioValue,
+  parsePositions,
+  walletAddress,
+  type ExposureSnapshot,
+} from '../src/exposure.js';
+
+const MARKET = `0x${'aa'.repeat(32)}`;
+const OTHER = `0x${'bb'.repeat(32)}`;
+
+describe('wallet exposure', () => {
+  it('uses the proxy wallet unless the signer is a plain EOA', () => {
+    const proxy = '0x1111111111111111111111111111111111111111';
+    const signer = '0x2222222222222222222222222222222222222222';
+    expect(walletAddress({ address: signer, proxy_address: proxy, signature_type: 'proxy' })).toBe(proxy);
+    expect(walletAddress({ address: signer, proxy_address: proxy, signature_type: 'eoa' })).toBe(signer);
+    expect(walletAddress({ address: null, proxy_address: null, configured: false })).toBeNull();
+  });
+
+  it('parses value, positions and the unfilled part of open orders', () => {
+    expect(parsePortfolioValue([{ user: '0x1', value: '120.5' }])).toBe(120.5);
+    expect(parsePositions([
+      { condition_id: MARKET, outcome: 'Yes', size: '50', current_value: '30' },
+      { outcome: 'No', size: '1' },
+    ])).toEqual([{ conditionId: MARKET, outcome: 'Yes', size: 50, currentValueUsd: 30 }]);
+    expect(parseOpenOrders([
+      { market: MARKET, asset_id: '1', side: 'BUY', price: '0.4', original_size: '100', size_matched: '25' },
+      { market: MARKET, asset_id: '1', side: 'UNKNOWN', price: '0.4', original_size: '100' },
+    ])).toEqual([{ market: MARKET, assetId: '1', side: 'buy', price: 0.4, remainingSize: 75 }]);
+  });
+
+  it('totals position value and resting buys, and adds buys to post-trade exposure', () => {
+    const snapshot: ExposureSnapshot = {
+      address: '0x1111111111111111111111111111111111111111',
+      portfolioValueUsd: 200,
+      positions: [
+        { conditionId: MARKET, outcome: 'Yes', size: 100, currentValueUsd: 45 },
+        { conditionId: MARKET, outcome: 'No', size: 10, currentValueUsd: 5 },
+        { conditionId: OTHER, outcome: 'Yes', size: 300, currentValueUsd: 150 },
+      ],
+      openOrders: [
+        { market: MARKET.toUpperCase().replace('0X', '0x'), assetId: '1', side: 'buy', price: 0.4, remainingSize: 50 },
+        { market: OTHER, assetId: '2', side: 'buy', price: 0.5, remainingSize: 20 },
+        { market: MARKET, assetId: '1', side: 'sell', price: 0.6, remainingSize: 100 },
+      ],
+    };
+
+    const buy = exposureFields(snapshot, { conditionId: MARKET, side: 'buy', amountUsd: 25 });
+    expect(buy).toEqual({
+      wallet_address: snapshot.address,
+      portfolio_value_usd: 200,
+      market_position_size: 110,
+      market_position_value_usd: 50,
+      open_orders_count: 3,
+      open_orders_notional_usd: 30,
+      market_open_orders_notional_usd: 20,
+      total_exposure_usd: 230,
+      market_exposure_usd: 70,
+      post_trade_exposure_usd: 255,
+      post_trade_market_exposure_usd: 95,
+    });
+    expect(Object.keys(buy)).toEqual([...EXPOSURE_FIELDS]);
+
+    const sell = exposureFields(snapshot, { conditionId: MARKET, side: 'sell', amountUsd: 25 });
+    expect(sell.post_trade_exposure_usd).toBe(230);
+    expect(sell.post_trade_market_exposure_usd).toBe(70);
+  });
+});
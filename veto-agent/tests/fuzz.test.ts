@@ -0,0 +1,179 @@
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from '../src/schema.js';
+import { listTools, type ToolSpec } from '../src/tools.js';
+
+/**
+ * Property-style check: for every tool, swap one input for a hostile value and
+ * assert that anything which still validates and builds keeps the same command
+ * shape: same subcommand, same flags in the same positions, and free text only
+ * after the `--` separator.
+ */
+
+const HOSTILE_STRINGS = [
+  '',
+  ' ',
+  '-',
+  '--',
+  '-o',
+  '--amount',
+  '--output=table',
+  '--private-key',
+  '--size 1000',
+  'abc --amount 5',
+  'a\n--flag',
+  'a\u0000b',
+  '1,2',
+  '123,--amount',
+  '$(reboot)',
+  '`id`',
+  ';ls',
+  '../../etc/passwd',
+  '１２３',
+  '123 ',
+  '-123',
+  '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD',
+  `0x${'ab'.repeat(32)} --amount 5`,
+  `-0x${'ab'.repeat(32)}`,
+  'x'.repeat(4096),
+];
+
+const HOSTILE_NUMBERS: unknown[] = [-1, 0, Number.NaN, Number.POSITIVE_INFINITY, 1e309, '--amount', '1', null, true, [], {}];
+
+const VALID_STRING_CANDIDATES = [
+  '123',
+  `0x${'ab'.repeat(32)}`,
+  '0x56687bf447db6ffa42ffe2204a05edaa20f55839',
+  '2024-06-15',
+  'us-election',
+  'volume',
+  'MTA=',
+  'collateral',
+];
+
+type Schema = Record<string, unknown>;
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+}
+
+function sampleValue(schema: Schema, enumIndex = 0): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[enumIndex % schema.enum.length];
+  switch (schema.type) {
+    case 'string': {
+      const pattern = typeof schema.pattern === 'string' ? new RegExp(schema.pattern) : null;
+      return VALID_STRING_CANDIDATES.find((candidate) => !pattern || pattern.test(candidate)) ?? 'x';
+    }
+    case 'integer':
+      return typeof schema.minimum === 'number' ? Math.max(schema.minimum, 1) : 1;
+    case 'number':
+      return 0.5;
+    case 'boolean':
+      return true;
+    case 'array':
+      return [sampleValue(schema.items as Schema)];
+    case 'object':
+      return sampleObject(schema, 'all');
+    default:
+      return undefined;
+  }
+}
+
+function sampleObject(schema: Schema, mode: 'all' | 'required', enumIndex = 0): Record<string, unknown> {
+  const properties = (schema.properties ?? {}) as Record<string, Schema>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const out: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(properties)) {
+    if (mode === 'required' && !required.has(key)) continue;
+    out[key] = sampleValue(property, enumIndex);
+  }
+  return out;
+}
+
+function tryBuild(tool: ToolSpec, args: Record<string, unknown>): string[] | null {
+  if (validateSchema(tool.inputSchema, args).length > 0) return null;
+  try {
+    return tool.build(args).argv;
+  } catch {
+    return null;
+  }
+}
+
+function flagsOf(argv: string[]): string[] {
+  const end = argv.indexOf('--');
+  return (end === -1 ? argv : argv.slice(0, end)).filter((value) => value.startsWith('-'));
+}
+
+/**
+ * Finds a valid input: every property with each enum value, then required-only,
+ * then every property but one (for mutually exclusive options).
+ */
+function baseline(tool: ToolSpec): { args: Record<string, unknown>; argv: string[] } {
+  const schema = tool.inputSchema as unknown as Schema;
+  const variants = [0, 1, 2, 3].map((enumIndex) => sampleObject(schema, 'all', enumIndex));
+  variants.push(sampleObject(schema, 'required'));
+  for (const key of Object.keys(schema.properties ?? {})) {
+    const variant = sampleObject(schema, 'all');
+    delete variant[key];
+    variants.push(variant);
+  }
+
+  for (const args of variants) {
+    const argv = tryBuild(tool, args);
+    if (argv) return { args, argv };
+  }
+  throw new Error(`No valid sample input for ${tool.name}`);
+}
+
+/** Paths to every leaf input, descending into arrays and nested objects. */
+function leafPaths(value: unknown, path: Array<string | number> = []): Array<Array<string | number>> {
+  if (Array.isArray(value)) return value.flatMap((item, index) => leafPaths(item, [...path, index]));
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, item]) => leafPaths(item, [...path, key]));
+  }
+  return [path];
+}
+
+function withValue(args: Record<string, unknown>, path: Array<string | number>, value: unknown): Record<string, unknown> {
+  const copy = structuredClone(args) as Record<string, unknown>;
+  let target: Record<string | number, unknown> = copy;
+  for (const key of path.slice(0, -1)) target = target[key] as Record<string | number, unknown>;
+  target[path[path.length - 1]!] = value;
+  return copy;
+}
+
+describe('argv injection fuzzing', () => {
+  const random = mulberry32(0x5eed);
+
+  for (const tool of listTools()) {
+    it(`keeps the command shape of ${tool.name}`, () => {
+      const { args, argv: expected } = baseline(tool);
+      const paths = leafPaths(args);
+
+      for (let round = 0; round < 150 && paths.length > 0; round++) {
+        const path = paths[Math.floor(random() * paths.length)]!;
+        const original = path.reduce<unknown>((node, key) => (node as Record<string | number, unknown>)[key], args);
+        const pool: unknown[] = typeof original === 'number' ? HOSTILE_NUMBERS : HOSTILE_STRINGS;
+        const hostile = pool[Math.floor(random() * pool.length)];
+
+        const argv = tryBuild(tool, withValue(args, path, hostile));
+        if (!argv) continue;
+
+        const label = `${tool.name} ${path.join('.')}=${JSON.stringify(hostile)}`;
+        expect(argv.length, label).toBe(expected.length);
+        expect(argv.slice(0, 2), label).toEqual(expected.slice(0, 2));
+        expect(flagsOf(argv), label).toEqual(flagsOf(expected));
+        expect(argv.indexOf('--'), label).toBe(expected.indexOf('--'));
+        for (const value of argv) {
+          expect(/[\u0000-\u001f]/.test(value), `${label} control character`).toBe(false);
+        }
+      }
+    });
+  }
+});
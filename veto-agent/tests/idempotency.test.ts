@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { callFingerprint, IdempotencyError, IdempotencyStore } from '../src/idempotency.js';
+import type { McpToolResult } from '../src/types.js';
+
+function withStorePath(run: (path: string) => Promise<void>): () => Promise<void> {
+  return async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'polymarket-idempotency-'));
+    try {
+      await run(join(dir, 'idempotency.json'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+const NOW = new Date('2026-05-10T12:00:00Z');
+const result = (text: string): McpToolResult => ({ content: [{ type: 'text', text }] });
+const call = (key: string, fingerprint: string, persist = false) => ({ key, fingerprint, tool: 'order_market', ttlMs: 60_000, persist });
+
+describe('call fingerprint', () => {
+  it('ignores key order but not values or live mode', () => {
+    const base = callFingerprint('order_market', { token: '1', amount: 5, side: 'buy' }, false);
+    expect(callFingerprint('order_market', { side: 'buy', amount: 5, token: '1' }, false)).toBe(base);
+    expect(callFingerprint('order_market', { side: 'buy', amount: 6, token: '1' }, false)).not.toBe(base);
+    expect(callFingerprint('order_market', { side: 'buy', amount: 5, token: '1' }, true)).not.toBe(base);
+  });
+});
+
+describe('idempotency store', () => {
+  it('replays completed and in-flight calls, and expires them after the ttl', withStorePath(async (path) => {
+    const store = new IdempotencyStore(path);
+    let runs = 0;
+    let finish: (value: McpToolResult) => void = () => {};
+    const execute = (): Promise<McpToolResult> => {
+      runs += 1;
+      return new Promise((resolve) => { finish = resolve; });
+    };
+
+    const first = store.run(call('k', 'fp'), execute, NOW);
+    const second = store.run(call('k', 'fp'), execute, NOW);
+    finish(result('done'));
+    expect(await first).toEqual(result('done'));
+    expect(await second).toEqual(result('done'));
+    expect(await store.run(call('k', 'fp'), execute, new Date(NOW.getTime() + 30_000))).toEqual(result('done'));
+    expect(runs).toBe(1);
+
+    const later = store.run(call('k', 'fp'), execute, new Date(NOW.getTime() + 61_000));
+    finish(result('again'));
+    expect(await later).toEqual(result('again'));
+    expect(runs).toBe(2);
+  }));
+
+  it('rejects a key reused for different content and frees keys only of calls that failed before sending', withStorePath(async (path) => {
+    const store = new IdempotencyStore(path);
+    await store.run(call('k', 'fp-1'), async () => result('one'), NOW);
+
+    const conflict = await store.run(call('k', 'fp-2'), async () => result('two'), NOW).catch((error: unknown) => error);
+    expect(conflict).toBeInstanceOf(IdempotencyError);
+    expect((conflict as IdempotencyError).reason).toBe('conflict');
+
+    await expect(store.run(call('f', 'fp'), async () => { throw new Error('boom'); }, NOW)).rejects.toThrow('boom');
+    expect(store.get('f')).toBeUndefined();
+    expect(await store.run(call('f', 'fp'), async () => result('retried'), NOW)).toEqual(result('retried'));
+
+    const sentThenFailed = async (sent: () => void): Promise<McpToolResult> => {
+      sent();
+      throw new Error('timed out');
+    };
+    await expect(store.run(call('s', 'fp'), sentThenFailed, NOW)).rejects.toThrow('timed out');
+    const unknown = await store.run(call('s', 'fp'), async () => result('twice'), NOW).catch((error: unknown) => error);
+    expect((unknown as IdempotencyError).reason).toBe('unfinished');
+  }));
+
+  it('persists live calls only and refuses to rerun one left pending by a crash', withStorePath(async (path) => {
+    const store = new IdempotencyStore(path);
+    await store.run(call('sim', 'fp'), async () => result('simulated'), NOW);
+    expect(existsSync(path)).toBe(false);
+
+    void store.run(call('live', 'fp', true), () => new Promise<McpToolResult>(() => {}), NOW);
+    const saved = JSON.parse(readFileSync(path, 'utf-8')) as { records: Array<{ key: string; status: string }> };
+    expect(saved.records.map((record) => [record.key, record.status])).toEqual([['live', 'pending']]);
+
+    let runs = 0;
+    const restarted = new IdempotencyStore(path);
+    const error = await restarted.run(call('live', 'fp', true), async () => {
+      runs += 1;
+      return result('twice');
+    }, NOW).catch((caught: unknown) => caught);
+    expect((error as IdempotencyError).reason).toBe('unfinished');
+    expect(runs).toBe(0);
+  }));
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { resolveOutcome } from '../src/outcomes.js';
+
+const MARKET = {
+  question: 'Will it rain in London tomorrow?',
+  outcomes: '["Yes", "No"]',
+  clobTokenIds: '["111", "222"]',
+};
+
+describe('outcome resolution', () => {
+  it('maps an outcome label to the token at the same index, ignoring case', () => {
+    expect(resolveOutcome('london-rain', ' no ', MARKET)).toEqual({
+      market: 'london-rain',
+      outcome: ' no ',
+      token: '222',
+      question: 'Will it rain in London tomorrow?',
+      outcomeLabel: 'No',
+      outcomes: ['Yes', 'No'],
+    });
+  });
+
+  it('accepts array-valued and snake_case payloads', () => {
+    const resolved = resolveOutcome('1', 'Up', { outcomes: ['Up', 'Down'], clob_token_ids: ['7', '8'] });
+    expect(resolved.token).toBe('7');
+    expect(resolved.question).toBeNull();
+  });
+
+  it('rejects unknown and ambiguous outcomes', () => {
+    expect(() => resolveOutcome('london-rain', 'Maybe', MARKET)).toThrow(
+      "Unknown outcome 'Maybe' for market 'london-rain': expected one of Yes|No",
+    );
+    expect(() => resolveOutcome('dup', 'yes', { outcomes: ['Yes', 'YES'], clobTokenIds: ['1', '2'] })).toThrow(
+      "Ambiguous outcome 'yes' for market 'dup': 2 outcomes share that label",
+    );
+  });
+
+  it('rejects markets without matching token ids', () => {
+    expect(() => resolveOutcome('m', 'Yes', { outcomes: ['Yes', 'No'] })).toThrow("Market 'm' has no CLOB token ids to trade");
+    expect(() => resolveOutcome('m', 'Yes', { outcomes: ['Yes', 'No'], clobTokenIds: ['1'] })).toThrow('no CLOB token ids');
+  });
+});
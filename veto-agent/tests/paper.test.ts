@@ -0,0 +1,225 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { OrderBook } from '../src/analytics.js';
+import { PaperLedger, paperTools } from '../src/paper.js';
+import type { SimulationFill } from '../src/simulation.js';
+
+function fill(overrides: Partial<SimulationFill>): SimulationFill {
+  return {
+    status: 'filled',
+    fills: [],
+    filledSize: 0,
+    filledUsd: 0,
+    averagePrice: null,
+    restingSize: 0,
+    restingPrice: null,
+    feeRateBps: 0,
+    feesUsd: 0,
+    positionDelta: { token: '1', shares: 0, cashUsd: 0 },
+    book: { bestBid: null, bestAsk: null, midpoint: null },
+    ...overrides,
+  };
+}
+
+function openLedger(path: string, startingCashUsd: number): PaperLedger {
+  return new PaperLedger(path, { startingCashUsd, gtdTtlSeconds: 3_600 });
+}
+
+function book(bids: Array<[number, number]>, asks: Array<[number, number]>): OrderBook {
+  const levels = (side: Array<[number, number]>) => side.map(([price, size]) => ({ price, size }));
+  return { bids: levels(bids), asks: levels(asks), bestBid: bids[0]?.[0] ?? null, bestAsk: asks[0]?.[0] ?? null, midpoint: null };
+}
+
+function withLedger(run: (path: string) => void | Promise<void>): () => Promise<void> {
+  return async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'polymarket-paper-'));
+    try {
+      await run(join(dir, 'paper.json'));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+describe('paper ledger', () => {
+  it('moves cash and positions on fills and persists across reloads', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    ledger.record('order_market', { token: '1', side: 'buy', orderType: 'FOK', amount: 40 }, fill({
+      filledSize: 100,
+      filledUsd: 40,
+      averagePrice: 0.4,
+      feesUsd: 0.5,
+    }));
+    ledger.record('order_create_limit', { token: '1', side: 'sell', orderType: 'GTC', price: 0.6, size: 50 }, fill({
+      filledSize: 50,
+      filledUsd: 30,
+      averagePrice: 0.6,
+      feesUsd: 0,
+    }));
+
+    const reloaded = openLedger(path, 999);
+    expect(reloaded.cashUsd).toBe(89.5);
+    expect(reloaded.positions()).toEqual([{ token: '1', shares: 50, costBasisUsd: 20.25, realizedPnlUsd: 9.75 }]);
+    const ids = reloaded.orders().map((order) => order.id);
+    expect(ids).toHaveLength(2);
+    expect(ids.every((id) => /^0x[0-9a-f]{64}$/.test(id))).toBe(true);
+    expect(new Set(ids).size).toBe(2);
+    expect(JSON.parse(readFileSync(path, 'utf-8')).version).toBe(1);
+  }));
+
+  it('rejects buys beyond paper cash and sells beyond the paper position', withLedger((path) => {
+    const ledger = openLedger(path, 10);
+    const buy = ledger.record('order_market', { token: '1', side: 'buy', orderType: 'FOK', amount: 20 }, fill({
+      filledSize: 40,
+      filledUsd: 20,
+    }));
+    const sell = ledger.record('order_market', { token: '1', side: 'sell', orderType: 'FOK', amount: 5 }, fill({
+      filledSize: 5,
+      filledUsd: 2,
+    }));
+
+    expect(buy).toMatchObject({ status: 'rejected', filledSize: 0, reason: 'insufficient paper cash: needs 20, has 10' });
+    expect(sell).toMatchObject({ status: 'rejected', reason: 'insufficient paper position: selling 5, holding 0' });
+    expect(ledger.cashUsd).toBe(10);
+  }));
+
+  it('marks positions to midpoints and holds unpriced tokens at cost', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    ledger.record('order_market', { token: '1', side: 'buy', orderType: 'FOK', amount: 20 }, fill({ filledSize: 50, filledUsd: 20 }));
+    ledger.record('order_market', { token: '2', side: 'buy', orderType: 'FOK', amount: 10 }, fill({ filledSize: 20, filledUsd: 10 }));
+
+    expect(ledger.pnl({ '1': 0.5, '2': null })).toEqual({
+      startingCashUsd: 100,
+      cashUsd: 70,
+      heldCashUsd: 0,
+      positionsValueUsd: 35,
+      equityUsd: 105,
+      realizedPnlUsd: 0,
+      unrealizedPnlUsd: 5,
+      totalPnlUsd: 5,
+      returnPct: 5,
+      feesPaidUsd: 0,
+      unpricedTokens: ['2'],
+    });
+  }));
+
+  it('refuses to load a corrupt ledger', withLedger((path) => {
+    writeFileSync(path, '{"version": 2}');
+    expect(() => openLedger(path, 100)).toThrow(`Invalid paper ledger '${path}': unsupported format`);
+  }));
+
+  it('fills resting orders at their limit once the market crosses them', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    const resting = { status: 'resting' as const, restingSize: 100, restingPrice: 0.4 };
+    const higher = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.4, size: 100 }, fill(resting));
+    const lower = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.35, size: 100 }, fill({
+      ...resting,
+      restingPrice: 0.35,
+    }));
+
+    expect(ledger.fillResting('1', book([[0.38, 500]], [[0.42, 500]]))).toEqual([]);
+
+    const changed = ledger.fillResting('1', book([[0.3, 500]], [[0.33, 140], [0.39, 80]]));
+    expect(changed.map((order) => order.id)).toEqual([higher.id, lower.id]);
+    expect(changed[0]).toMatchObject({ status: 'filled', filledSize: 100, filledUsd: 40, averagePrice: 0.4, restingSize: 0, restingPrice: null });
+    expect(changed[1]).toMatchObject({ status: 'partially_filled', filledSize: 40, filledUsd: 14, restingSize: 60, restingPrice: 0.35 });
+    expect(ledger.cashUsd).toBe(46);
+    expect(ledger.openOrders().map((order) => order.id)).toEqual([lower.id]);
+
+    expect(openLedger(path, 100).positions()).toEqual([{ token: '1', shares: 140, costBasisUsd: 54, realizedPnlUsd: 0 }]);
+  }));
+
+  it('fills against the same resting liquidity only once across polls', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    const order = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.4, size: 100 }, fill({
+      status: 'resting',
+      restingSize: 100,
+      restingPrice: 0.4,
+    }));
+
+    expect(ledger.fillResting('1', book([], [[0.39, 10]]))[0]).toMatchObject({ filledSize: 10, restingSize: 90 });
+    expect(openLedger(path, 100).fillResting('1', book([], [[0.39, 10]]))).toEqual([]);
+
+    const reloaded = openLedger(path, 100);
+    expect(reloaded.fillResting('1', book([], [[0.39, 25]]))[0]).toMatchObject({ id: order.id, filledSize: 25, restingSize: 75 });
+    expect(reloaded.fillResting('1', book([], [[0.41, 5]]))).toEqual([]);
+    expect(reloaded.fillResting('1', book([], [[0.39, 5]]))[0]).toMatchObject({ filledSize: 30, restingSize: 70 });
+  }));
+
+  it('holds cash and shares for resting orders until they close', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    const resting = (price: number, size: number) => fill({ status: 'resting', restingSize: size, restingPrice: price });
+
+    const bid = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.4, size: 200 }, resting(0.4, 200));
+    expect(bid.status).toBe('resting');
+    expect(ledger.heldCashUsd).toBe(80);
+
+    const tooBig = ledger.record('order_create_limit', { token: '2', side: 'buy', orderType: 'GTC', price: 0.5, size: 50 }, resting(0.5, 50));
+    expect(tooBig).toMatchObject({ status: 'rejected', reason: 'insufficient paper cash: needs 25, has 20', restingSize: 0 });
+
+    const naked = ledger.record('order_create_limit', { token: '1', side: 'sell', orderType: 'GTC', price: 0.6, size: 10 }, resting(0.6, 10));
+    expect(naked).toMatchObject({ status: 'rejected', reason: 'insufficient paper position: selling 10, holding 0' });
+
+    ledger.cancel({ orderIds: [bid.id] });
+    expect(ledger.heldCashUsd).toBe(0);
+    expect(ledger.record('order_create_limit', { token: '2', side: 'buy', orderType: 'GTC', price: 0.5, size: 50 }, resting(0.5, 50)).status)
+      .toBe('resting');
+    expect(ledger.cashUsd).toBe(100);
+  }));
+
+  it('expires GTD orders after the configured TTL', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    const placed = new Date('2026-01-01T00:00:00Z');
+    const resting = fill({ status: 'resting', restingSize: 10, restingPrice: 0.4 });
+    const gtd = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTD', price: 0.4, size: 10 }, resting, null, placed);
+    ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.4, size: 10 }, resting, null, placed);
+
+    expect(gtd.expiresAt).toBe('2026-01-01T01:00:00.000Z');
+    expect(ledger.expire(new Date('2026-01-01T00:59:59Z'))).toEqual([]);
+
+    const expired = ledger.expire(new Date('2026-01-01T01:00:00Z'));
+    expect(expired.map((order) => order.id)).toEqual([gtd.id]);
+    expect(expired[0]).toMatchObject({ status: 'expired', restingSize: 0 });
+    expect(ledger.openOrders()).toHaveLength(1);
+  }));
+
+  it('cancels open orders by id, market and asset', withLedger((path) => {
+    const ledger = openLedger(path, 100);
+    const market = `0x${'ab'.repeat(32)}`;
+    const resting = fill({ status: 'resting', restingSize: 10, restingPrice: 0.4 });
+    const first = ledger.record('order_create_limit', { token: '1', side: 'buy', orderType: 'GTC', price: 0.4, size: 10 }, resting, market);
+    const second = ledger.record('order_create_limit', { token: '2', side: 'buy', orderType: 'GTC', price: 0.4, size: 10 }, resting, market);
+    const third = ledger.record('order_create_limit', { token: '3', side: 'buy', orderType: 'GTC', price: 0.4, size: 10 }, resting);
+
+    expect(ledger.cancel({ orderIds: [first.id.toUpperCase().replace('0X', '0x')] }).map((order) => order.id)).toEqual([first.id]);
+    expect(ledger.cancel({ market: market.toUpperCase().replace('0X', '0x') }).map((order) => order.id)).toEqual([second.id]);
+    expect(ledger.cancel({ asset: '3' }).map((order) => order.id)).toEqual([third.id]);
+    expect(ledger.cancel({})).toEqual([]);
+    expect(ledger.orders().filter((order) => order.status === 'cancelled')).toHaveLength(3);
+  }));
+
+  it('exposes positions, orders and pnl as read tools over midpoints', withLedger(async (path) => {
+    const ledger = openLedger(path, 100);
+    ledger.record('order_market', { token: '7', side: 'buy', orderType: 'FOK', amount: 20 }, fill({ filledSize: 50, filledUsd: 20 }));
+    const killedOrder = ledger.record('order_market', { token: '7', side: 'buy', orderType: 'FOK', amount: 1 }, fill({ status: 'killed' }));
+
+    const tools = new Map(paperTools(ledger).map((tool) => [tool.name, tool]));
+    const calls: string[][] = [];
+    const run = async (argv: string[]): Promise<unknown> => {
+      calls.push(argv);
+      return { '7': '0.3' };
+    };
+
+    const positions = await tools.get('paper_positions')!.build({}).compose!(run) as Array<Record<string, unknown>>;
+    expect(positions[0]).toMatchObject({ token: '7', averageCost: 0.4, midpoint: 0.3, marketValueUsd: 15, unrealizedPnlUsd: -5 });
+    expect(calls).toEqual([['clob', 'midpoints', '7']]);
+
+    const killed = await tools.get('paper_orders')!.build({ status: 'killed' }).compose!(run) as Array<Record<string, unknown>>;
+    expect(killed.map((order) => order.id)).toEqual([killedOrder.id]);
+
+    const pnl = await tools.get('paper_pnl')!.build({}).compose!(run) as Record<string, unknown>;
+    expect(pnl.totalPnlUsd).toBe(-5);
+  }));
+});
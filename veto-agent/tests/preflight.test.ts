@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateOrder, parseMarketMetadata, snapPrice, type MarketMetadata } from '../src/preflight.js';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+
+function meta(overrides: Partial<MarketMetadata> = {}): MarketMetadata {
+  return {
+    token: '1',
+    conditionId: `0x${'ab'.repeat(32)}`,
+    tickSize: 0.01,
+    negRisk: false,
+    acceptingOrders: true,
+    closed: false,
+    minOrderSize: 5,
+    endDate: '2026-03-02T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('order preflight', () => {
+  it('merges tick-size, neg-risk, book and market payloads', () => {
+    const parsed = parseMarketMetadata(
+      '1',
+      { minimum_tick_size: '0.001' },
+      { neg_risk: true },
+      { market: '0xbook', min_order_size: '15', tick_size: '0.01' },
+      { condition_id: '0xmarket', accepting_orders: true, closed: false, minimum_order_size: 5, end_date_iso: '2026-04-01T00:00:00Z' },
+    );
+
+    expect(parsed).toEqual({
+      token: '1',
+      conditionId: '0xmarket',
+      tickSize: 0.001,
+      negRisk: true,
+      acceptingOrders: true,
+      closed: false,
+      minOrderSize: 5,
+      endDate: '2026-04-01T00:00:00Z',
+    });
+    expect(parseMarketMetadata('1', null, null, null, null).tickSize).toBeNull();
+  });
+
+  it('snaps buys down and sells up onto the tick grid', () => {
+    expect(snapPrice(0.503, 0.01, 'buy')).toBe(0.5);
+    expect(snapPrice(0.503, 0.01, 'sell')).toBe(0.51);
+    expect(snapPrice(0.57, 0.01, 'buy')).toBe(0.57);
+    expect(snapPrice(0.1235, 0.001, 'sell')).toBe(0.124);
+  });
+
+  it('accepts on-tick orders and reports guard fields', () => {
+    const result = evaluateOrder({ token: '1', side: 'buy', price: 0.57, size: 10 }, meta(), { snapToTick: false, now: NOW });
+
+    expect(result.errors).toEqual([]);
+    expect(result.snapped).toBe(false);
+    expect(result.guardFields).toMatchObject({ tick_size: 0.01, neg_risk: false, accepting_orders: true, hours_to_end: 24 });
+  });
+
+  it('reports closed, ended and out-of-range orders with field paths', () => {
+    const result = evaluateOrder(
+      { token: '1', side: 'buy', price: 0.995, size: 1 },
+      meta({ closed: true, endDate: '2026-02-01T00:00:00Z' }),
+      { snapToTick: false, now: NOW },
+      'legs[2].',
+    );
+
+    expect(result.errors.map((issue) => issue.path)).toEqual([
+      'legs[2].token',
+      'legs[2].token',
+      'legs[2].price',
+      'legs[2].price',
+      'legs[2].size',
+    ]);
+    expect(result.errors[2]!.message).toBe("Invalid 'legs[2].price': 0.995 is not a multiple of tick size 0.01");
+    expect(result.errors[3]!.message).toBe("Invalid 'legs[2].price': expected 0.01 to 0.99 for tick size 0.01, got 0.995");
+  });
+
+  it('snaps instead of rejecting when enabled, keeping the requested price', () => {
+    const result = evaluateOrder({ token: '1', side: 'sell', price: 0.503, size: 10 }, meta(), { snapToTick: true, now: NOW });
+
+    expect(result.errors).toEqual([]);
+    expect(result.price).toBe(0.51);
+    expect(result.guardFields.requested_price).toBe(0.503);
+  });
+
+  it('skips checks whose metadata is unavailable', () => {
+    const unknown = parseMarketMetadata('1', {}, {}, {}, null);
+    const result = evaluateOrder({ token: '1', side: 'buy', price: 0.503, size: 1 }, unknown, { snapToTick: false, now: NOW });
+    expect(result.errors).toEqual([]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { RateLimiter } from '../src/ratelimit.js';
+
+const PER_MINUTE = { perMinute: 6, burst: 2 };
+
+describe('rate limiter', () => {
+  it('allows a burst, then refills at the per-minute rate', () => {
+    const limiter = new RateLimiter();
+    const charge = [{ key: 'tool:a', limit: PER_MINUTE, cost: 1 }];
+
+    expect(limiter.acquire(charge, 0)).toBeNull();
+    expect(limiter.acquire(charge, 0)).toBeNull();
+    expect(limiter.acquire(charge, 0)).toEqual({ ...charge[0], retryAfterMs: 10_000 });
+    expect(limiter.acquire(charge, 4_000)).toMatchObject({ retryAfterMs: 6_000 });
+    expect(limiter.acquire(charge, 10_000)).toBeNull();
+    expect(limiter.snapshot(70_000)).toEqual([{ key: 'tool:a', perMinute: 6, burst: 2, available: 2 }]);
+  });
+
+  it('charges all buckets or none and reports the slowest to recover', () => {
+    const limiter = new RateLimiter();
+    const fast = { key: 'class:read', limit: { perMinute: 600, burst: 1 }, cost: 1 };
+    const slow = { key: 'profile:agent', limit: { perMinute: 6, burst: 1 }, cost: 1 };
+    const roomy = { key: 'tool:b', limit: { perMinute: 60, burst: 10 }, cost: 1 };
+
+    expect(limiter.acquire([fast, slow], 0)).toBeNull();
+    expect(limiter.acquire([roomy, fast, slow], 0)).toMatchObject({ key: 'profile:agent', retryAfterMs: 10_000 });
+    expect(limiter.snapshot(0).find((bucket) => bucket.key === 'tool:b')?.available).toBe(10);
+  });
+
+  it('never admits a cost above the burst', () => {
+    const limiter = new RateLimiter();
+    expect(limiter.acquire([{ key: 'orders', limit: PER_MINUTE, cost: 3 }], 0)).toMatchObject({ retryAfterMs: null });
+  });
+});
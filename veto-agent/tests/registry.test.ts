@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { loadCustomTools, mergeToolSpecs } from '../src/registry.js';
+import { listTools, toolCategory } from '../src/tools.js';
+
+const dirs: string[] = [];
+
+function writeTools(yaml: string): string {
+  const dir = mkdtempSync(join(tmpdir(), 'polymarket-tools-'));
+  dirs.push(dir);
+  const path = join(dir, 'polymarket-veto.tools.yaml');
+  writeFileSync(path, yaml, 'utf-8');
+  return path;
+}
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) rmSync(dir, { recursive: true, force: true });
+});
+
+const TICK_SIZE = `
+tools:
+  - name: clob_tick_size
+    description: Get the minimum tick size for a token.
+    mutating: false
+    inputSchema:
+      type: object
+      required: [token]
+      properties:
+        token: { type: string }
+    argv: [clob, tick-size, '{token}']
+`;
+
+const MARKETS_PAGE = `
+tools:
+  - name: markets_page
+    description: List one page of markets.
+    mutating: false
+    inputSchema:
+      type: object
+      required: [limit]
+      properties:
+        limit: { type: integer }
+        offset: { type: integer }
+        order: { type: string, enum: [volume_num, liquidity_num] }
+        ascending: { type: boolean }
+    argv:
+      - markets
+      - list
+      - { flag: --limit, value: '{limit}' }
+      - { flag: --offset, value: '{offset}' }
+      - { flag: --order, value: '{order}' }
+      - { flag: --ascending, when: ascending }
+    guardArgs:
+      limit: '{limit}'
+      last_row: '{offset} + {limit}'
+      source: custom
+`;
+
+const UPDATE_BALANCE = `
+tools:
+  - name: clob_update_balance
+    description: Refresh the collateral balance allowance.
+    mutating: true
+    argv: [clob, update-balance, --asset-type, collateral]
+`;
+
+describe('custom tool registry', () => {
+  it('returns no tools when the file is absent', () => {
+    expect(loadCustomTools(join(tmpdir(), 'missing-polymarket-tools.yaml'))).toEqual([]);
+  });
+
+  it('builds argv and passes every input as a guard arg by default', () => {
+    const [tool] = loadCustomTools(writeTools(TICK_SIZE));
+    expect(tool!.name).toBe('clob_tick_size');
+    expect(toolCategory(tool!)).toBe('public_read');
+
+    const built = tool!.build({ token: '123' });
+    expect(built.argv).toEqual(['clob', 'tick-size', '123']);
+    expect(built.guardArgs).toEqual({ token: '123' });
+
+    expect(() => tool!.build({})).toThrow("Invalid 'token'");
+    expect(() => tool!.build({ token: '1', extra: 1 })).toThrow("Unexpected argument 'extra'");
+    expect(() => tool!.build({ token: '--private-key' })).toThrow("must not start with '-'");
+  });
+
+  it('renders optional flags and computes guard arg expressions', () => {
+    const [tool] = loadCustomTools(writeTools(MARKETS_PAGE));
+    expect(toolCategory(tool!)).toBe('public_read');
+
+    const built = tool!.build({ limit: 20, offset: 40, order: 'volume_num', ascending: true });
+    expect(built.argv).toEqual([
+      'markets', 'list',
+      '--limit', '20',
+      '--offset', '40',
+      '--order', 'volume_num',
+      '--ascending',
+    ]);
+    expect(built.guardArgs).toEqual({ limit: 20, last_row: 60, source: 'custom' });
+
+    expect(tool!.build({ limit: 20 }).argv).not.toContain('--offset');
+    expect(tool!.build({ limit: 20 }).guardArgs.last_row).toBeUndefined();
+    expect(() => tool!.build({ limit: 20, order: 'spread' })).toThrow("Invalid 'order'");
+
+    const [update] = loadCustomTools(writeTools(UPDATE_BALANCE));
+    expect(toolCategory(update!)).toBe('mutating');
+  });
+
+  it('rejects unsafe or malformed templates at load time', () => {
+    const cases: Array<[string, string]> = [
+      ["argv: [wallet, show]", 'argv must start with one of'],
+      ["argv: [clob, delete-api-key]", "'delete-api-key' is not allowed"],
+      ["argv: [clob, book, '--output', table]", "'--output' is not allowed"],
+      ["argv: [clob, book, 'x{token}']", 'mixes literal text with a placeholder'],
+      ["argv: [clob, book, 'a;rm']", 'is not a plain word or --flag'],
+      ["argv: [clob, '{token}']", "argv[1] must be a literal 'clob' subcommand"],
+      ["argv: [ctf]", "argv[1] must be a literal 'ctf' subcommand"],
+      ["argv: [clob, create-order, { flag: --token, value: '{token}' }]", "'clob create-order' is only available through the built-in order_create_limit tool"],
+      ["argv: [ctf, merge, { flag: --condition, value: '{token}' }]", "'ctf merge' is only available through the built-in ctf_merge tool"],
+      ["argv: [bridge, deposit, '{token}']", "'bridge deposit' is only available through the built-in bridge_deposit_address tool"],
+      ["argv: [clob, api-keys]", "'api-keys' is not allowed"],
+      ["argv: [clob, delete-notifications, '{token}']", "'clob delete-notifications' must be declared mutating: true"],
+      ["argv: [clob, update-balance, --asset-type, collateral]", "'clob update-balance' must be declared mutating: true"],
+      ["argv: [clob, book, '{missing}']", "unknown property 'missing'"],
+      ["argv: [clob, book, '{note}']", 'must reference a required property'],
+      ["argv: [clob, book]\n    guardArgs: { amount_usd: '{token} * 2' }", 'not a numeric property'],
+      ["argv: [clob, book]\n    guardArgs: { amount_usd: '{size} * (2' }", 'not a well-formed expression'],
+      ["argv: [clob, book]\n    guardArgs: { tool_category: x }", 'is reserved'],
+    ];
+
+    for (const [fragment, message] of cases) {
+      const path = writeTools(`
+tools:
+  - name: bad_tool
+    description: Broken.
+    mutating: false
+    inputSchema:
+      type: object
+      required: [token]
+      properties:
+        token: { type: string }
+        size: { type: number }
+        note: { type: string }
+    ${fragment}
+`);
+      expect(() => loadCustomTools(path), fragment).toThrow(message);
+    }
+  });
+
+  it('refuses to shadow built-in tools', () => {
+    const custom = loadCustomTools(writeTools(TICK_SIZE.replace('clob_tick_size', 'clob_book')));
+    expect(() => mergeToolSpecs(listTools(), custom)).toThrow("Invalid custom tool 'clob_book'");
+  });
+});
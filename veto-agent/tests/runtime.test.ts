@@ -26,6 +26,49 @@ function makeConfig(): ResolvedConfig {
         port: 9800,
         path: '/mcp',
       },
+      preflight: {
+        enabled: false,
+        snapToTick: false,
+      },
+      context: {
+        book: { enabled: false, timeoutMs: 3_000, onFailure: 'continue' },
+        market: { enabled: false, timeoutMs: 3_000, onFailure: 'continue' },
+        gamma: { enabled: false, timeoutMs: 3_000, onFailure: 'continue' },
+      },
+      exposure: {
+        enabled: false,
+        address: 'auto',
+        timeoutMs: 5_000,
+        onFailure: 'continue',
+      },
+      budgets: {
+        enabled: false,
+        path: 'polymarket-veto.spend.json',
+        limits: [],
+      },
+      rateLimits: {
+        enabled: false,
+        ordersPerMinute: null,
+        classes: {},
+        profiles: {},
+        tools: {},
+      },
+      idempotency: {
+        enabled: false,
+        path: 'polymarket-veto.idempotency.json',
+        windowSeconds: 60,
+        keyTtlSeconds: 86_400,
+      },
+      paper: {
+        enabled: false,
+        path: 'polymarket-veto.paper.json',
+        startingCashUsd: 1_000,
+        gtdTtlSeconds: 86_400,
+        pollIntervalMs: 15_000,
+      },
+      customTools: {
+        path: 'polymarket-veto.tools.yaml',
+      },
       veto: {
         configDir: '../veto',
         policyProfile: 'defaults',
@@ -149,7 +192,7 @@ describe('runtime decisions', () => {
     expect(mapped.message).toContain('Approval denied');
   });
 
-  it('simulates mutating commands and computes notional/estimates', async () => {
+  it('simulates market orders against the book with fees and position deltas', async () => {
     const calls: string[][] = [];
 
     const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
@@ -160,8 +203,14 @@ describe('runtime decisions', () => {
       },
       execute: async (binary, argv) => {
         calls.push(argv);
-        if (argv[0] === 'clob' && argv[1] === 'midpoint') {
-          return okExecution(argv, { midpoint: 0.5 });
+        if (argv[1] === 'book') {
+          return okExecution(argv, {
+            bids: [{ price: '0.48', size: '100' }],
+            asks: [{ price: '0.52', size: '10' }, { price: '0.5', size: '20' }],
+          });
+        }
+        if (argv[1] === 'fee-rate') {
+          return okExecution(argv, { base_fee_bps: 100 });
         }
         return okExecution(argv, { ok: true });
       },
@@ -171,15 +220,927 @@ describe('runtime decisions', () => {
       token: '1',
       side: 'buy',
       amount: 20,
+      orderType: 'FAK',
     });
 
     const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    const order = payload.order as Record<string, unknown>;
     expect(payload.simulation).toBe(true);
-    expect(payload.estimatedShares).toBe(40);
+    expect(order.status).toBe('partially_filled');
+    expect(order.fills).toEqual([{ price: 0.5, size: 20 }, { price: 0.52, size: 10 }]);
+    expect(order.filledUsd).toBe(15.2);
+    expect(order.feesUsd).toBe(0.148);
+    expect(order.positionDelta).toEqual({ token: '1', shares: 30, cashUsd: -15.348 });
+
+    // book and fee lookups happen, the live command does not execute.
+    expect(calls.map((argv) => argv[1]).sort()).toEqual(['book', 'fee-rate']);
+  });
+
+  it('passes tool category to the guard', async () => {
+    const seen: Array<Record<string, unknown>> = [];
+
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: {
+        async guard(toolName, args): Promise<RuntimeDecision> {
+          seen.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => okExecution(argv, { data: [], next_cursor: 'LTE=' }),
+    });
+
+    await runtime.callTool('clob_orders', {});
+    await runtime.callTool('markets_get', { market: 'abc' });
+
+    expect(seen[0]!.tool_category).toBe('authenticated_read');
+    expect(seen[1]!.tool_category).toBe('public_read');
+  });
+
+  it('simulates batch limit orders per leg, resting what does not cross', async () => {
+    const calls: string[][] = [];
+
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        calls.push(argv);
+        if (argv[1] === 'book') {
+          return okExecution(argv, { bids: [{ price: '0.2', size: '50' }], asks: [{ price: argv[2] === '111' ? '0.44' : '0.3', size: '4' }] });
+        }
+        if (argv[1] === 'fee-rate') {
+          return { ...okExecution(argv, null), ok: false, exitCode: 1, stderr: 'fee endpoint down' };
+        }
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    const result = await runtime.callTool('order_batch_limit', {
+      side: 'buy',
+      legs: [
+        { token: '111', price: 0.45, size: 10 },
+        { token: '222', price: 0.25, size: 20 },
+      ],
+    });
+
+    const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    const legs = payload.legs as Array<Record<string, unknown>>;
+    expect(payload.simulation).toBe(true);
+    expect(legs).toHaveLength(2);
+    expect(legs[0]).toMatchObject({ status: 'partially_filled', filledSize: 4, restingSize: 6, restingPrice: 0.45, feesUsd: null });
+    expect(legs[0]!.feeWarning).toContain('fee endpoint down');
+    expect(legs[1]).toMatchObject({ status: 'resting', filledSize: 0, restingSize: 20 });
+    expect(payload.totals).toEqual({ filledSize: 4, filledUsd: 1.76, restingSize: 26, feesUsd: 0, cashUsd: -1.76 });
+    expect(calls.every((argv) => argv[1] === 'book' || argv[1] === 'fee-rate')).toBe(true);
+  });
+
+  it('disables output redaction only for identifier computations', async () => {
+    const redactFlags: Array<boolean | undefined> = [];
+
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv, opts) => {
+        redactFlags.push(opts.redact);
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    await runtime.callTool('ctf_collection_id', { condition: `0x${'cd'.repeat(32)}`, indexSet: 2 });
+    await runtime.callTool('markets_get', { market: 'abc' });
+
+    expect(redactFlags).toEqual([false, true]);
+  });
+
+  it('pages orders and reward programs for the rewards summary', async () => {
+    const calls: string[][] = [];
+    const market = `0x${'aa'.repeat(32)}`;
+
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        calls.push(argv);
+        if (argv[1] === 'orders') {
+          return argv.includes('--cursor')
+            ? okExecution(argv, {
+              data: [{ id: 'o2', market, asset_id: '1', side: 'SELL', price: '0.6', original_size: '10', size_matched: '0' }],
+              next_cursor: 'LTE=',
+            })
+            : okExecution(argv, {
+              data: [{ id: 'o1', market, asset_id: '1', side: 'BUY', price: '0.4', original_size: '100', size_matched: '20' }],
+              next_cursor: 'MTA=',
+            });
+        }
+        if (argv[1] === 'current-rewards') {
+          return okExecution(argv, {
+            data: [{ condition_id: market, rewards_max_spread: '3', rewards_min_size: '50', rewards_config: [{ rate_per_day: '25' }] }],
+            next_cursor: 'LTE=',
+          });
+        }
+        return okExecution(argv, { o1: true, o2: false });
+      },
+    });
+
+    const result = await runtime.callTool('rewards_summary', {});
+    const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    const output = payload.output as Record<string, unknown>;
+    const orders = output.orders as Array<Record<string, unknown>>;
+    const markets = output.markets as Array<Record<string, unknown>>;
+
+    expect(calls).toEqual([
+      ['clob', 'orders'],
+      ['clob', 'orders', '--cursor', 'MTA='],
+      ['clob', 'current-rewards'],
+      ['clob', 'orders-scoring', 'o1,o2'],
+    ]);
+    expect(payload.commands).toHaveLength(4);
+    expect(output.totals).toEqual({ openOrders: 2, scoringOrders: 1, ordersInRewardMarkets: 2 });
+    expect(orders[0]!.meetsMinSize).toBe(true);
+    expect(orders[1]!.meetsMinSize).toBe(false);
+    expect(markets[0]).toEqual({ conditionId: market, openOrders: 2, scoringOrders: 1, ratePerDay: 25 });
+    expect(output.truncated).toBe(false);
+  });
+
+  it('lists and executes custom tools loaded next to the config', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'polymarket-veto-'));
+    writeFileSync(
+      join(tempDir, 'polymarket-veto.tools.yaml'),
+      [
+        'tools:',
+        '  - name: clob_tick_size',
+        '    description: Get the minimum tick size for a token.',
+        '    mutating: false',
+        '    inputSchema:',
+        '      type: object',
+        '      required: [token]',
+        '      properties:',
+        '        token: { type: string }',
+        "    argv: [clob, tick-size, '{token}']",
+        '',
+      ].join('\n'),
+      'utf-8',
+    );
+
+    const calls: string[][] = [];
+    const seen: Array<Record<string, unknown>> = [];
+    const runtime = await PolymarketVetoRuntime.create({ ...makeConfig(), baseDir: tempDir }, {
+      guard: {
+        async guard(toolName, args): Promise<RuntimeDecision> {
+          seen.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        calls.push(argv);
+        return okExecution(argv, { minimum_tick_size: '0.01' });
+      },
+    });
+
+    try {
+      expect(runtime.listMcpTools().map((tool) => tool.name)).toContain('clob_tick_size');
+      await runtime.callTool('clob_tick_size', { token: '123' });
+      expect(calls).toEqual([['clob', 'tick-size', '123']]);
+      expect(seen[0]!.token).toBe('123');
+      expect(seen[0]!.tool_category).toBe('public_read');
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects schema violations with field paths before building or guarding', async () => {
+    const guard = vi.fn(async (): Promise<RuntimeDecision> => ({ decision: 'allow' }));
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: { guard },
+      execute: async (binary, argv) => okExecution(argv, { ok: true }),
+    });
+
+    let error: unknown;
+    try {
+      await runtime.callTool('order_batch_limit', {
+        side: 'buy',
+        legs: [{ token: '1', price: 0.5, size: 10 }, { token: '2', price: 0, size: 10 }],
+      });
+    } catch (err) {
+      error = err;
+    }
+
+    const mapped = runtime.toRpcError(error);
+    expect(mapped.code).toBe(-32602);
+    expect(mapped.message).toBe("Invalid 'legs[1].price': expected number > 0");
+    expect((mapped.data as { errors: unknown[] }).errors).toEqual([
+      { path: 'legs[1].price', message: "Invalid 'legs[1].price': expected number > 0" },
+    ]);
+    expect(guard).not.toHaveBeenCalled();
+  });
+
+  it('rejects orders that fail preflight against live market metadata', async () => {
+    const config = makeConfig();
+    config.config.preflight.enabled = true;
+    const guard = vi.fn(async (): Promise<RuntimeDecision> => ({ decision: 'allow' }));
+    const condition = `0x${'ab'.repeat(32)}`;
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: { guard },
+      execute: async (binary, argv) => {
+        if (argv[1] === 'tick-size') return okExecution(argv, { minimum_tick_size: '0.01' });
+        if (argv[1] === 'neg-risk') return okExecution(argv, { neg_risk: false });
+        if (argv[1] === 'book') return okExecution(argv, { market: condition, min_order_size: '5' });
+        if (argv[1] === 'market') {
+          return okExecution(argv, {
+            condition_id: condition,
+            accepting_orders: false,
+            closed: false,
+            minimum_order_size: 5,
+            end_date_iso: '2099-01-01T00:00:00Z',
+          });
+        }
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    let error: unknown;
+    try {
+      await runtime.callTool('order_create_limit', { token: '1', side: 'buy', price: 0.503, size: 2 });
+    } catch (err) {
+      error = err;
+    }
+
+    const mapped = runtime.toRpcError(error);
+    expect(mapped.code).toBe(-32602);
+    expect(mapped.message).toContain('Order preflight failed');
+    expect((mapped.data as { errors: Array<{ path: string }> }).errors.map((issue) => issue.path)).toEqual([
+      'token',
+      'price',
+      'size',
+    ]);
+    expect(guard).not.toHaveBeenCalled();
+  });
+
+  it('snaps off-tick prices and passes preflight metadata to the guard', async () => {
+    const config = makeConfig();
+    config.config.preflight = { enabled: true, snapToTick: true };
+    const seen: Array<Record<string, unknown>> = [];
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(toolName, args): Promise<RuntimeDecision> {
+          seen.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        if (argv[1] === 'tick-size') return okExecution(argv, { minimum_tick_size: '0.01' });
+        if (argv[1] === 'neg-risk') return okExecution(argv, { neg_risk: argv[2] === '222' });
+        if (argv[1] === 'book') return okExecution(argv, { market: 'not-a-condition-id', min_order_size: '5' });
+        if (argv[1] === 'midpoint') return okExecution(argv, { midpoint: '0.5' });
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    const result = await runtime.callTool('order_batch_limit', {
+      side: 'sell',
+      legs: [
+        { token: '111', price: 0.453, size: 10 },
+        { token: '222', price: 0.25, size: 20 },
+      ],
+    });
+
+    const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    expect(payload.command).toContain('--prices 0.46,0.25');
+    expect((payload.preflight as Record<string, unknown>).snappedPrices).toEqual([{ index: 0, from: 0.453, to: 0.46 }]);
+
+    const legs = seen[0]!.legs as Array<Record<string, unknown>>;
+    expect(legs[0]).toMatchObject({ price: 0.46, requested_price: 0.453, tick_size: 0.01, min_order_size: 5 });
+    expect(legs[1]!.neg_risk).toBe(true);
+    expect(seen[0]!.neg_risk_any).toBe(true);
+    expect(seen[0]!.amount_usd).toBe(9.6);
+  });
+
+  it('keeps the resolved question and outcome label when preflight snaps the price', async () => {
+    const config = makeConfig();
+    config.config.preflight = { enabled: true, snapToTick: true };
+    const seen: Array<Record<string, unknown>> = [];
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(toolName, args): Promise<RuntimeDecision> {
+          seen.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        if (argv[0] === 'markets') {
+          return okExecution(argv, {
+            question: 'Will it rain in London tomorrow?',
+            outcomes: '["Yes", "No"]',
+            clobTokenIds: '["111", "222"]',
+          });
+        }
+        if (argv[1] === 'tick-size') return okExecution(argv, { minimum_tick_size: '0.01' });
+        if (argv[1] === 'neg-risk') return okExecution(argv, { neg_risk: false });
+        if (argv[1] === 'book') return okExecution(argv, { market: 'not-a-condition-id', min_order_size: '5' });
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    const result = await runtime.callTool('order_create_limit', {
+      market: 'london-rain',
+      outcome: 'yes',
+      side: 'buy',
+      price: 0.453,
+      size: 10,
+    });
+
+    const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    expect(payload.command).toContain('--price 0.45');
+    expect(seen[0]).toMatchObject({
+      token: '111',
+      price: 0.45,
+      requested_price: 0.453,
+      question: 'Will it rain in London tomorrow?',
+      outcome_label: 'Yes',
+    });
+  });
+
+  it('resolves market and outcome names to a token before guarding', async () => {
+    const calls: string[][] = [];
+    const seen: Array<Record<string, unknown>> = [];
+    const runtime = await PolymarketVetoRuntime.create(makeConfig(), {
+      guard: {
+        async guard(toolName, args): Promise<RuntimeDecision> {
+          seen.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        calls.push(argv);
+        if (argv[0] === 'markets') {
+          return okExecution(argv, {
+            question: 'Will it rain in London tomorrow?',
+            outcomes: '["Yes", "No"]',
+            clobTokenIds: '["111", "222"]',
+          });
+        }
+        return okExecution(argv, { midpoint: '0.4' });
+      },
+    });
+
+    const result = await runtime.callTool('order_create_limit', {
+      market: 'london-rain',
+      outcome: 'no',
+      side: 'buy',
+      price: 0.4,
+      size: 10,
+    });
+
+    const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+    expect(calls[0]).toEqual(['markets', 'get', 'london-rain']);
+    expect(payload.command).toContain('--token 222');
+    expect((payload.resolvedOutcome as Record<string, unknown>).outcomeLabel).toBe('No');
+    expect(seen[0]).toMatchObject({
+      token: '222',
+      market: 'london-rain',
+      outcome: 'no',
+      question: 'Will it rain in London tomorrow?',
+      outcome_label: 'No',
+    });
+
+    const mapped = runtime.toRpcError(await runtime.callTool('clob_price', {
+      market: 'london-rain',
+      outcome: 'Maybe',
+      side: 'buy',
+    }).catch((error: unknown) => error));
+    expect(mapped.code).toBe(-32602);
+    expect(mapped.message).toBe("Unknown outcome 'Maybe' for market 'london-rain': expected one of Yes|No");
+
+    const conflicting = runtime.toRpcError(await runtime.callTool('clob_book', {
+      token: '111',
+      market: 'london-rain',
+      outcome: 'Yes',
+    }).catch((error: unknown) => error));
+    expect(conflicting.code).toBe(-32602);
+    expect(conflicting.message).toBe("Pass either 'token' or 'market' with 'outcome', not both");
+    expect(seen).toHaveLength(1);
+  });
+
+  it('enriches order guard args with market context and applies source fallbacks', async () => {
+    const config = makeConfig();
+    const conditionId = `0x${'ef'.repeat(32)}`;
+    config.config.context.book.enabled = true;
+    config.config.context.market.enabled = true;
+    config.config.context.gamma = { enabled: true, timeoutMs: 1_500, onFailure: 'continue' };
+    const seenArgs: Array<Record<string, unknown>> = [];
+    const timeouts: Record<string, number> = {};
+    let gammaFails = false;
+
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(_toolName, args): Promise<RuntimeDecision> {
+          seenArgs.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv, opts) => {
+        timeouts[argv.slice(0, 2).join(' ')] = opts.timeoutMs;
+        if (argv[1] === 'book') {
+          return okExecution(argv, {
+            market: conditionId,
+            bids: [{ price: '0.41', size: '120' }],
+            asks: [{ price: '0.45', size: '80' }],
+          });
+        }
+        if (argv[1] === 'market') {
+          return okExecution(argv, {
+            question: 'Will it rain?',
+            market_slug: 'will-it-rain',
+            tags: ['Weather'],
+            end_date_iso: '2999-01-01T00:00:00Z',
+          });
+        }
+        if (argv[0] === 'markets') {
+          if (gammaFails) return { ...okExecution(argv, null), ok: false, exitCode: 1, stderr: 'timed out' };
+          return okExecution(argv, { category: 'Science', liquidityNum: 5_000, volume: '12000.5' });
+        }
+        return okExecution(argv, { ok: true });
+      },
+    });
 
-    // midpoint lookup should happen, live command should not execute.
-    expect(calls).toHaveLength(1);
-    expect(calls[0]).toEqual(['clob', 'midpoint', '1']);
+    await runtime.callTool('order_create_limit', { token: '123', side: 'buy', price: 0.42, size: 10 });
+    expect(seenArgs[0]).toMatchObject({
+      midpoint: 0.43,
+      spread: 0.04,
+      best_bid: 0.41,
+      best_ask: 0.45,
+      best_bid_depth: 120,
+      best_ask_depth: 80,
+      question: 'Will it rain?',
+      market_slug: 'will-it-rain',
+      tags: ['Weather'],
+      end_date: '2999-01-01T00:00:00Z',
+      category: 'Science',
+      liquidity: 5_000,
+      volume: 12000.5,
+      context_unavailable: [],
+    });
+    expect(seenArgs[0]!.hours_to_end).toBeGreaterThan(0);
+    expect(timeouts['markets get']).toBe(1_500);
+
+    gammaFails = true;
+    await runtime.callTool('order_create_limit', { token: '123', side: 'buy', price: 0.42, size: 10 });
+    expect(seenArgs[1]).toMatchObject({ category: null, liquidity: null, volume: null, context_unavailable: ['gamma'] });
+
+    config.config.context.gamma.onFailure = 'reject';
+    const rejected = runtime.toRpcError(await runtime.callTool('order_create_limit', {
+      token: '123',
+      side: 'buy',
+      price: 0.42,
+      size: 10,
+    }).catch((error: unknown) => error));
+    expect(rejected.code).toBe(-32003);
+    expect(rejected.message).toBe('Market context lookup failed for token 123 (gamma): timed out');
+    expect(seenArgs).toHaveLength(2);
+  });
+
+  it('reuses the book and market preflight read for context and simulation', async () => {
+    const config = makeConfig();
+    const conditionId = `0x${'ef'.repeat(32)}`;
+    config.config.preflight.enabled = true;
+    config.config.context.book.enabled = true;
+    config.config.context.market.enabled = true;
+    const seenArgs: Array<Record<string, unknown>> = [];
+    const calls: string[][] = [];
+
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(_toolName, args): Promise<RuntimeDecision> {
+          seenArgs.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => {
+        calls.push(argv);
+        if (argv[1] === 'tick-size') return okExecution(argv, { minimum_tick_size: '0.01' });
+        if (argv[1] === 'neg-risk') return okExecution(argv, { neg_risk: false });
+        if (argv[1] === 'book') {
+          return okExecution(argv, {
+            market: conditionId,
+            min_order_size: '5',
+            bids: [{ price: '0.41', size: '120' }],
+            asks: [{ price: '0.45', size: '80' }],
+          });
+        }
+        if (argv[1] === 'market') {
+          return okExecution(argv, {
+            condition_id: conditionId,
+            question: 'Will it rain?',
+            accepting_orders: true,
+            minimum_order_size: 5,
+            end_date_iso: '2999-01-01T00:00:00Z',
+          });
+        }
+        if (argv[1] === 'fee-rate') return okExecution(argv, { base_fee_bps: 0 });
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    const result = await runtime.callTool('order_create_limit', { token: '123', side: 'buy', price: 0.45, size: 10 });
+    const payload = JSON.parse(result.content[0]!.text) as { order: Record<string, unknown> };
+    expect(payload.order).toMatchObject({ market: conditionId, status: 'filled', filledSize: 10 });
+    expect(seenArgs[0]).toMatchObject({ best_ask: 0.45, question: 'Will it rain?', context_unavailable: [] });
+    expect(calls.map((argv) => argv.slice(0, 2).join(' '))).toEqual([
+      'clob tick-size',
+      'clob neg-risk',
+      'clob book',
+      'clob market',
+      'clob fee-rate',
+    ]);
+  });
+
+  it('adds wallet exposure to order guard args', async () => {
+    const config = makeConfig();
+    const market = `0x${'aa'.repeat(32)}`;
+    const proxy = '0x1111111111111111111111111111111111111111';
+    config.config.exposure.enabled = true;
+    const seenArgs: Array<Record<string, unknown>> = [];
+    const seen: string[][] = [];
+    let valueFails = false;
+
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(_toolName, args): Promise<RuntimeDecision> {
+          seenArgs.push(args);
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv, opts) => {
+        seen.push(argv);
+        if (argv[0] === 'wallet') return okExecution(argv, { address: '0x2222222222222222222222222222222222222222', proxy_address: proxy, signature_type: 'proxy' });
+        if (argv[0] === 'data' && argv[1] === 'value') {
+          expect(opts.redact).toBe(false);
+          if (valueFails) return { ...okExecution(argv, null), ok: false, exitCode: 1, stderr: 'rate limited' };
+          return okExecution(argv, [{ user: proxy, value: '300' }]);
+        }
+        if (argv[0] === 'data') return okExecution(argv, [{ condition_id: market, outcome: 'Yes', size: '100', current_value: '40' }]);
+        if (argv[1] === 'orders') {
+          if (argv.includes('--cursor')) {
+            return okExecution(argv, { data: [{ market, side: 'BUY', price: '0.5', original_size: '20', size_matched: '0' }], next_cursor: 'LTE=' });
+          }
+          return okExecution(argv, { data: [{ market, side: 'BUY', price: '0.4', original_size: '50', size_matched: '0' }], next_cursor: 'MTA=' });
+        }
+        if (argv[1] === 'book') return okExecution(argv, { market, bids: [], asks: [] });
+        return okExecution(argv, { ok: true });
+      },
+    });
+
+    await runtime.callTool('order_create_limit', { token: '123', side: 'buy', price: 0.5, size: 20 });
+    expect(seen).toContainEqual(['data', 'positions', proxy, '--limit', '500']);
+    expect(seen).toContainEqual(['clob', 'orders', '--cursor', 'MTA=']);
+    expect(seenArgs[0]).toMatchObject({
+      wallet_address: proxy,
+      portfolio_value_usd: 300,
+      market_position_value_usd: 40,
+      open_orders_notional_usd: 30,
+      market_exposure_usd: 70,
+      total_exposure_usd: 330,
+      post_trade_exposure_usd: 340,
+      post_trade_market_exposure_usd: 80,
+      exposure_unavailable: false,
+    });
+
+    await runtime.callTool('order_batch_limit', {
+      side: 'buy',
+      legs: [{ token: '1', price: 0.5, size: 10 }, { token: '2', price: 0.25, size: 20 }],
+    });
+    expect(seenArgs[1]).toMatchObject({ amount_usd: 10, post_trade_exposure_usd: 340, exposure_unavailable: false });
+    expect(seenArgs[1]!.market_exposure_usd).toBeUndefined();
+    expect((seenArgs[1]!.legs as Array<Record<string, unknown>>)[1]).toMatchObject({ market_exposure_usd: 70, post_trade_market_exposure_usd: 80 });
+
+    valueFails = true;
+    await runtime.callTool('order_create_limit', { token: '123', side: 'buy', price: 0.5, size: 20 });
+    expect(seenArgs[2]).toMatchObject({ total_exposure_usd: null, market_exposure_usd: null, exposure_unavailable: true });
+
+    config.config.exposure.onFailure = 'reject';
+    const rejected = runtime.toRpcError(await runtime.callTool('order_create_limit', {
+      token: '123',
+      side: 'buy',
+      price: 0.5,
+      size: 20,
+    }).catch((error: unknown) => error));
+    expect(rejected.code).toBe(-32003);
+    expect(rejected.message).toBe('Exposure lookup failed: data value: rate limited');
+  });
+
+  it('enforces persisted spend budgets on live buys only', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'polymarket-veto-'));
+    const config = makeConfig();
+    config.baseDir = tempDir;
+    config.config.execution.simulationDefault = false;
+    config.config.execution.allowLiveTrades = true;
+    config.config.budgets = {
+      enabled: true,
+      path: 'polymarket-veto.spend.json',
+      limits: [
+        { window: 'day', scope: 'total', maxUsd: 30 },
+        { window: 'day', scope: 'market', maxUsd: 15 },
+      ],
+    };
+    vi.stubEnv('ALLOW_LIVE_TRADES', 'true');
+    let failOrders = false;
+    let timeOut = false;
+
+    const deps = {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' as const };
+        },
+      },
+      execute: async (binary: string, argv: string[], opts: { onSpawn?: () => void }): Promise<ExecutionResult> => {
+        if (failOrders && argv[1] === 'market-order') return { ...okExecution(argv, null), ok: false, exitCode: -1, stderr: 'spawn ENOENT' };
+        opts.onSpawn?.();
+        if (timeOut && argv[1] === 'market-order') return { ...okExecution(argv, null), ok: false, exitCode: -1, stderr: 'timed out' };
+        return okExecution(argv, { ok: true });
+      },
+    };
+
+    try {
+      const runtime = await PolymarketVetoRuntime.create(config, deps);
+      await runtime.callTool('order_market', { token: '1', side: 'buy', amount: 10 });
+      await runtime.callTool('order_market', { token: '1', side: 'buy', amount: 20 }, true);
+
+      const denied = runtime.toRpcError(await runtime.callTool('order_market', { token: '1', side: 'buy', amount: 6 })
+        .catch((error: unknown) => error));
+      expect(denied.code).toBe(-32001);
+      expect(denied.message).toBe("Denied by budget: daily market '1' budget of $15 exceeded (used 10, requested 6)");
+      await runtime.callTool('order_market', { token: '1', side: 'sell', amount: 50 });
+      await runtime.callTool('ctf_merge', { condition: `0x${'ab'.repeat(32)}`, amount: 50 });
+
+      failOrders = true;
+      const failed = runtime.toRpcError(await runtime.callTool('order_market', { token: '2', side: 'buy', amount: 15 })
+        .catch((error: unknown) => error));
+      expect(failed.code).toBe(-32003);
+      failOrders = false;
+
+      timeOut = true;
+      const timedOut = runtime.toRpcError(await runtime.callTool('order_market', { token: '3', side: 'buy', amount: 5 })
+        .catch((error: unknown) => error));
+      expect(timedOut.code).toBe(-32003);
+      timeOut = false;
+
+      const restarted = await PolymarketVetoRuntime.create(config, deps);
+      await restarted.callTool('order_market', { token: '2', side: 'buy', amount: 15 });
+      const status = await restarted.callTool('budget_status', {});
+      const report = JSON.parse(status.content[0]!.text) as { output: { limits: Array<Record<string, unknown>> } };
+      expect(report.output.limits).toEqual([
+        { window: 'day', scope: 'total', key: null, maxUsd: 30, usedUsd: 30, remainingUsd: 0 },
+        { window: 'day', scope: 'market', key: '1', maxUsd: 15, usedUsd: 10, remainingUsd: 5 },
+        { window: 'day', scope: 'market', key: '3', maxUsd: 15, usedUsd: 5, remainingUsd: 10 },
+        { window: 'day', scope: 'market', key: '2', maxUsd: 15, usedUsd: 15, remainingUsd: 0 },
+      ]);
+    } finally {
+      vi.unstubAllEnvs();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('throttles calls with token buckets and reports them in doctor', async () => {
+    const config = makeConfig();
+    config.config.rateLimits = {
+      enabled: true,
+      ordersPerMinute: 3,
+      classes: { read: { perMinute: 60, burst: 2 } },
+      profiles: {},
+      tools: {},
+    };
+    const runtime = await PolymarketVetoRuntime.create(config, {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary, argv) => okExecution(argv, { ok: true }),
+    });
+
+    await runtime.callTool('markets_list', {});
+    await runtime.callTool('markets_list', {});
+    const limited = runtime.toRpcError(await runtime.callTool('markets_list', {}).catch((error: unknown) => error));
+    expect(limited.code).toBe(-32004);
+    expect(limited.message).toBe("Rate limited: 'class:read' allows 60 per minute; retry after 1s");
+    expect(limited.data).toMatchObject({ limit: 'class:read', perMinute: 60, burst: 2 });
+    expect((limited.data as { retryAfterMs: number }).retryAfterMs).toBeGreaterThan(0);
+
+    const batch = runtime.toRpcError(await runtime.callTool('order_batch_limit', {
+      side: 'buy',
+      legs: [1, 2, 3, 4].map((token) => ({ token: String(token), price: 0.5, size: 10 })),
+    }).catch((error: unknown) => error));
+    expect(batch.message).toBe("Rate limited: order_batch_limit needs 4 from 'orders', which allows at most 3 at once");
+    expect((batch.data as { retryAfterMs: unknown }).retryAfterMs).toBeNull();
+
+    const report = await runtime.doctor();
+    expect(report.rateLimits).toMatchObject({ enabled: true, ordersPerMinute: 3 });
+    expect((report.rateLimits as { buckets: Array<{ key: string }> }).buckets.map((bucket) => bucket.key)).toEqual(['class:read', 'orders']);
+  });
+
+  it('refuses to start with a rate limit or budget for an unknown tool', async () => {
+    const deps = {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' };
+        },
+      },
+      execute: async (binary: string, argv: string[]) => okExecution(argv, { ok: true }),
+    };
+
+    const limited = makeConfig();
+    limited.config.rateLimits.tools = { order_create_limt: { perMinute: 5, burst: 5 } };
+    await expect(PolymarketVetoRuntime.create(limited, deps))
+      .rejects.toThrow('Invalid rateLimits.tools.order_create_limt: no such tool');
+
+    const budgeted = makeConfig();
+    budgeted.config.budgets.limits = [
+      { window: 'day', scope: 'total', maxUsd: 50 },
+      { window: 'day', scope: 'tool', tool: 'order_markte', maxUsd: 10 },
+    ];
+    await expect(PolymarketVetoRuntime.create(budgeted, deps))
+      .rejects.toThrow("Invalid budgets.limits[1].tool: no such tool 'order_markte'");
+  });
+
+  it('replays duplicate mutating calls and refuses live calls that timed out or were cut off by a restart', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'polymarket-veto-'));
+    const config = makeConfig();
+    config.baseDir = tempDir;
+    config.config.execution.simulationDefault = false;
+    config.config.execution.allowLiveTrades = true;
+    config.config.idempotency.enabled = true;
+    vi.stubEnv('ALLOW_LIVE_TRADES', 'true');
+    const orders: string[][] = [];
+    let hang = false;
+    let timeOut = false;
+
+    const deps = {
+      guard: {
+        async guard(): Promise<RuntimeDecision> {
+          return { decision: 'allow' as const };
+        },
+      },
+      execute: async (binary: string, argv: string[], opts: { onSpawn?: () => void }): Promise<ExecutionResult> => {
+        opts.onSpawn?.();
+        if (argv[1] === 'market-order') {
+          orders.push(argv);
+          if (hang) return new Promise<ExecutionResult>(() => {});
+          if (timeOut) return { ...okExecution(argv, null), ok: false, exitCode: -1, stderr: 'timed out' };
+        }
+        return okExecution(argv, { orderID: `0x${orders.length}` });
+      },
+    };
+
+    try {
+      const runtime = await PolymarketVetoRuntime.create(config, deps);
+      const schema = runtime.listMcpTools().find((tool) => tool.name === 'order_market')!.inputSchema;
+      expect((schema.properties as Record<string, unknown>).idempotencyKey).toMatchObject({ type: 'string' });
+
+      const order = { token: '1', side: 'buy', amount: 10 };
+      const [first, retried] = await Promise.all([
+        runtime.callTool('order_market', { ...order, idempotencyKey: 'order-1' }),
+        runtime.callTool('order_market', { ...order, idempotencyKey: 'order-1' }),
+      ]);
+      expect(retried).toEqual(first);
+      expect(await runtime.callTool('order_market', order)).not.toEqual(first);
+      await runtime.callTool('order_market', order);
+      expect(orders).toHaveLength(2);
+
+      const conflict = runtime.toRpcError(await runtime.callTool('order_market', { ...order, amount: 11, idempotencyKey: 'order-1' })
+        .catch((error: unknown) => error));
+      expect(conflict.code).toBe(-32602);
+      expect(conflict.message).toBe('Duplicate call: idempotency key was already used for a different order_market call');
+
+      timeOut = true;
+      const timedOut = runtime.toRpcError(await runtime.callTool('order_market', { ...order, idempotencyKey: 'order-3' })
+        .catch((error: unknown) => error));
+      expect(timedOut.code).toBe(-32003);
+      timeOut = false;
+      const unknown = runtime.toRpcError(await runtime.callTool('order_market', { ...order, idempotencyKey: 'order-3' })
+        .catch((error: unknown) => error));
+      expect(unknown.code).toBe(-32005);
+      expect(orders).toHaveLength(3);
+
+      hang = true;
+      void runtime.callTool('order_market', { ...order, idempotencyKey: 'order-2' });
+      await vi.waitFor(() => expect(orders).toHaveLength(4));
+
+      const restarted = await PolymarketVetoRuntime.create(config, deps);
+      expect(await restarted.callTool('order_market', { ...order, idempotencyKey: 'order-1' })).toEqual(first);
+      const unfinished = runtime.toRpcError(await restarted.callTool('order_market', { ...order, idempotencyKey: 'order-2' })
+        .catch((error: unknown) => error));
+      expect(unfinished.code).toBe(-32005);
+      expect(unfinished.data).toMatchObject({ idempotencyKey: 'order-2', tool: 'order_market' });
+      expect(orders).toHaveLength(4);
+    } finally {
+      vi.unstubAllEnvs();
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('records simulated fills in the paper ledger', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'polymarket-veto-'));
+    const config = makeConfig();
+    config.baseDir = tempDir;
+    config.config.paper.enabled = true;
+
+    try {
+      const runtime = await PolymarketVetoRuntime.create(config, {
+        guard: {
+          async guard(): Promise<RuntimeDecision> {
+            return { decision: 'allow' };
+          },
+        },
+        execute: async (binary, argv) => {
+          if (argv[1] === 'book') return okExecution(argv, { bids: [], asks: [{ price: '0.4', size: '100' }] });
+          if (argv[1] === 'fee-rate') return okExecution(argv, { base_fee_bps: 0 });
+          if (argv[1] === 'midpoints') return okExecution(argv, { [argv[2]!]: '0.5' });
+          return okExecution(argv, { ok: true });
+        },
+      });
+
+      expect(runtime.getStartupInfo().paperLedgerPath).toBe(join(tempDir, 'polymarket-veto.paper.json'));
+      const result = await runtime.callTool('order_market', { token: '5', side: 'buy', amount: 20 });
+      const payload = JSON.parse(result.content[0]!.text) as Record<string, unknown>;
+      expect((payload.order as Record<string, unknown>).paper).toMatchObject({ status: 'filled', filledSize: 50 });
+      expect(payload.paperCashUsd).toBe(980);
+
+      const pnl = await runtime.callTool('paper_pnl', {});
+      const report = JSON.parse(pnl.content[0]!.text) as { output: Record<string, unknown> };
+      expect(report.output).toMatchObject({ cashUsd: 980, positionsValueUsd: 25, totalPnlUsd: 5 });
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  it('fills, expires and cancels resting paper orders', async () => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'polymarket-veto-'));
+    const config = makeConfig();
+    const market = `0x${'cd'.repeat(32)}`;
+    config.baseDir = tempDir;
+    config.config.paper.enabled = true;
+    config.config.paper.gtdTtlSeconds = 60;
+    let asks = [{ price: '0.45', size: '100' }];
+    const seen: string[][] = [];
+
+    try {
+      const runtime = await PolymarketVetoRuntime.create(config, {
+        guard: {
+          async guard(): Promise<RuntimeDecision> {
+            return { decision: 'allow' };
+          },
+        },
+        execute: async (binary, argv, opts) => {
+          seen.push(argv);
+          if (argv[1] === 'book') {
+            expect(opts.redact).toBe(false);
+            return okExecution(argv, { market, bids: [{ price: '0.3', size: '100' }], asks });
+          }
+          if (argv[1] === 'fee-rate') return okExecution(argv, { base_fee_bps: 0 });
+          return okExecution(argv, { ok: true });
+        },
+      });
+
+      const place = async (token: string, orderType: string): Promise<Record<string, unknown>> => {
+        const result = await runtime.callTool('order_create_limit', { token, side: 'buy', price: 0.4, size: 10, orderType });
+        const payload = JSON.parse(result.content[0]!.text) as { order: { paper: Record<string, unknown> } };
+        return payload.order.paper;
+      };
+      const gtc = await place('5', 'GTC');
+      const gtd = await place('6', 'GTD');
+      const spare = await place('7', 'GTC');
+      expect(gtc).toMatchObject({ status: 'resting', restingSize: 10, market });
+
+      asks = [{ price: '0.39', size: '100' }];
+      seen.length = 0;
+      const report = await runtime.pollRestingOrders(new Date(Date.now() + 120_000));
+      expect(report.expired.map((order) => order.id)).toEqual([gtd.id]);
+      expect(report.filled.map((order) => order.id)).toEqual([gtc.id, spare.id]);
+      expect(seen).toEqual([['clob', 'book', '5'], ['clob', 'book', '7']]);
+
+      asks = [{ price: '0.45', size: '100' }];
+      const third = await place('8', 'GTC');
+      const cancel = await runtime.callTool('order_cancel_orders', { orderIds: [third.id, gtc.id] });
+      const cancelled = JSON.parse(cancel.content[0]!.text) as Record<string, unknown>;
+      expect(cancelled.paperCancel).toEqual({
+        cancelled: [third.id],
+        notCancelled: [{ orderId: gtc.id, reason: 'no open paper order with this id' }],
+      });
+
+      const open = await runtime.callTool('paper_orders', { status: 'cancelled' });
+      const listed = JSON.parse(open.content[0]!.text) as { output: Array<Record<string, unknown>> };
+      expect(listed.output.map((order) => order.id)).toEqual([third.id]);
+    } finally {
+      rmSync(tempDir, { recursive: true, force: true });
+    }
   });
 
   it('fails fast on non-retryable approval polling 4xx responses', async () => {
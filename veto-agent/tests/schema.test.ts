@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { validateSchema } from '../src/schema.js';
+
+const ORDER_SCHEMA = {
+  type: 'object',
+  required: ['side', 'legs'],
+  properties: {
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    note: { type: 'string', minLength: 1, maxLength: 8 },
+    id: { type: 'string', pattern: '^0x[0-9a-f]+$' },
+    legs: {
+      type: 'array',
+      minItems: 1,
+      maxItems: 2,
+      items: {
+        type: 'object',
+        required: ['price'],
+        properties: {
+          price: { type: 'number', exclusiveMinimum: 0, maximum: 1 },
+          count: { type: 'integer', minimum: 1 },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+describe('schema validation', () => {
+  it('accepts values that satisfy every keyword', () => {
+    expect(validateSchema(ORDER_SCHEMA, {
+      side: 'buy',
+      note: 'hedge',
+      id: '0xabc',
+      legs: [{ price: 0.5, count: 2 }],
+    })).toEqual([]);
+  });
+
+  it('reports nested violations with field paths', () => {
+    const issues = validateSchema(ORDER_SCHEMA, {
+      side: 'BUY',
+      legs: [{ price: 0 }, { price: 1.5, count: 1.5, extra: true }],
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'side',
+      'legs[0].price',
+      'legs[1].price',
+      'legs[1].count',
+      'legs[1].extra',
+    ]);
+    expect(issues[0]!.message).toBe("Invalid 'side': expected one of buy|sell");
+    expect(issues[1]!.message).toBe("Invalid 'legs[0].price': expected number > 0");
+    expect(issues[3]!.message).toBe("Invalid 'legs[1].count': expected integer");
+    expect(issues[4]!.message).toBe("Unexpected argument 'legs[1].extra'");
+  });
+
+  it('checks required fields, string bounds, patterns and array sizes', () => {
+    const issues = validateSchema(ORDER_SCHEMA, { note: '', id: 'xyz', legs: [] });
+
+    expect(issues).toEqual([
+      { path: 'side', message: "Invalid 'side': expected a value (required)" },
+      { path: 'note', message: "Invalid 'note': expected non-empty string" },
+      { path: 'id', message: "Invalid 'id': expected string matching /^0x[0-9a-f]+$/, got 'xyz'" },
+      { path: 'legs', message: "Invalid 'legs': expected at least 1 item(s)" },
+    ]);
+  });
+
+  it('rejects non-object arguments at the root', () => {
+    expect(validateSchema(ORDER_SCHEMA, [])).toEqual([
+      { path: '', message: 'Invalid arguments: expected object' },
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { parseBook } from '../src/analytics.js';
+import { estimateFees, simulateOrder } from '../src/simulation.js';
+
+const BOOK = parseBook({
+  bids: [{ price: '0.48', size: '30' }, { price: '0.47', size: '50' }],
+  asks: [{ price: '0.50', size: '10' }, { price: '0.52', size: '40' }],
+});
+
+describe('book simulation', () => {
+  it('fills FOK orders completely or not at all', () => {
+    const filled = simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'FOK', price: 0.52, size: 30 }, 0);
+    expect(filled.status).toBe('filled');
+    expect(filled.averagePrice).toBe(0.513333);
+
+    const killed = simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'FOK', price: 0.5, size: 30 }, 0);
+    expect(killed.status).toBe('killed');
+    expect(killed.fills).toEqual([]);
+    expect(killed.positionDelta).toEqual({ token: '1', shares: 0, cashUsd: 0 });
+  });
+
+  it('fills FAK orders partially and cancels the rest', () => {
+    const result = simulateOrder(BOOK, { token: '1', side: 'sell', orderType: 'FAK', price: 0.48, size: 50 }, null);
+    expect(result).toMatchObject({ status: 'partially_filled', filledSize: 30, restingSize: 0, feesUsd: null });
+    expect(result.positionDelta).toEqual({ token: '1', shares: -30, cashUsd: 14.4 });
+  });
+
+  it('crosses GTC orders then rests the remainder at the limit', () => {
+    const result = simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'GTC', price: 0.51, size: 25 }, 0);
+    expect(result).toMatchObject({ status: 'partially_filled', filledSize: 10, restingSize: 15, restingPrice: 0.51 });
+
+    const resting = simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'GTD', price: 0.45, size: 5 }, 0);
+    expect(resting).toMatchObject({ status: 'resting', filledSize: 0, restingSize: 5, restingPrice: 0.45 });
+  });
+
+  it('rejects post-only orders that would cross', () => {
+    const result = simulateOrder(BOOK, { token: '1', side: 'sell', orderType: 'GTC', price: 0.47, size: 5, postOnly: true }, 0);
+    expect(result.status).toBe('rejected');
+    expect(result.reason).toBe('post-only order would cross the best bid at 0.48');
+
+    const passive = simulateOrder(BOOK, { token: '1', side: 'sell', orderType: 'GTC', price: 0.55, size: 5, postOnly: true }, 0);
+    expect(passive.status).toBe('resting');
+  });
+
+  it('treats market sell amounts as shares and market buy amounts as USD', () => {
+    expect(simulateOrder(BOOK, { token: '1', side: 'sell', orderType: 'FOK', amount: 40 }, 0).filledSize).toBe(40);
+    expect(simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'FOK', amount: 5 }, 0).filledSize).toBe(10);
+    expect(simulateOrder(BOOK, { token: '1', side: 'buy', orderType: 'FOK', amount: 500 }, 0).status).toBe('killed');
+  });
+
+  it('charges fees on the cheaper side of the price', () => {
+    expect(estimateFees([{ price: 0.9, size: 100 }], 200)).toBe(0.2);
+    expect(estimateFees([{ price: 0.5, size: 100 }], 200)).toBe(1);
+  });
+});
@@ -1,5 +1,9 @@
 import { describe, expect, it } from 'vitest';
-import { getToolSpec, listTools } from '../src/tools.js';
+import { getToolSpec, listTools, toolCategory } from '../src/tools.js';
+
+const MARKET = `0x${'ab'.repeat(32)}`;
+const ORDER_A = `0x${'a1'.repeat(32)}`;
+const ORDER_B = `0x${'b2'.repeat(32)}`;
 
 describe('tool builders', () => {
   it('builds limit order command with normalized notional', () => {
@@ -46,6 +50,439 @@ describe('tool builders', () => {
     })).toThrow("Unexpected argument 'unexpected'");
   });
 
+  it('builds event discovery command with tag and paging filters', () => {
+    const tool = getToolSpec('events_list');
+    expect(tool).toBeDefined();
+
+    const built = tool!.build({
+      tag: 'politics',
+      active: true,
+      limit: 10,
+      offset: 20,
+      ascending: true,
+    });
+
+    expect(built.argv).toEqual([
+      'events',
+      'list',
+      '--tag', 'politics',
+      '--active', 'true',
+      '--limit', '10',
+      '--offset', '20',
+      '--ascending',
+    ]);
+    expect(built.guardArgs.tag).toBe('politics');
+  });
+
+  it('rejects fractional paging values', () => {
+    const tool = getToolSpec('series_list');
+    expect(tool).toBeDefined();
+
+    expect(() => tool!.build({ limit: 2.5 })).toThrow("Invalid 'limit'");
+    expect(() => tool!.build({ offset: -1 })).toThrow("Invalid 'offset'");
+  });
+
+  it('builds tag and sports lookups', () => {
+    expect(getToolSpec('tags_related_tags')!.build({ tag: 'nba', omitEmpty: true }).argv).toEqual([
+      'tags',
+      'related-tags',
+      'nba',
+      '--omit-empty', 'true',
+    ]);
+    expect(getToolSpec('sports_teams')!.build({ league: 'NBA', limit: 50 }).argv).toEqual([
+      'sports',
+      'teams',
+      '--league', 'NBA',
+      '--limit', '50',
+    ]);
+    expect(getToolSpec('sports_market_types')!.build({}).argv).toEqual(['sports', 'market-types']);
+  });
+
+  it('exposes discovery tools as read-only', () => {
+    const discovery = [
+      'events_list',
+      'events_get',
+      'events_tags',
+      'series_list',
+      'series_get',
+      'tags_list',
+      'tags_get',
+      'tags_related',
+      'tags_related_tags',
+      'sports_list',
+      'sports_market_types',
+      'sports_teams',
+    ];
+
+    for (const name of discovery) {
+      const tool = getToolSpec(name);
+      expect(tool, name).toBeDefined();
+      expect(tool!.mutating).toBe(false);
+    }
+  });
+
+  it('builds price history command and aggregates output on request', () => {
+    const tool = getToolSpec('clob_price_history');
+    expect(tool).toBeDefined();
+
+    const plain = tool!.build({ token: '123', interval: '1d' });
+    expect(plain.argv).toEqual(['clob', 'price-history', '123', '--interval', '1d']);
+    expect(plain.transform).toBeUndefined();
+
+    const built = tool!.build({ token: '123', interval: '1w', fidelity: 60, candles: '1d', summary: true });
+    expect(built.argv).toEqual(['clob', 'price-history', '123', '--interval', '1w', '--fidelity', '60']);
+
+    const output = built.transform!([
+      { timestamp: 0, price: '0.5' },
+      { timestamp: 3_600, price: '0.6' },
+    ]) as Record<string, unknown>;
+    expect(output.points).toBe(2);
+    expect(output.candles).toHaveLength(1);
+    expect((output.summary as Record<string, unknown>).changePct).toBe(20);
+    expect(output.history).toBeUndefined();
+  });
+
+  it('rejects unsupported price history interval and candle bucket', () => {
+    const tool = getToolSpec('clob_price_history');
+    expect(() => tool!.build({ token: '123', interval: '2h' })).toThrow("Invalid 'interval'");
+    expect(() => tool!.build({ token: '123', interval: '1d', candles: '3h' })).toThrow("Invalid 'candles'");
+  });
+
+  it('builds batch token commands and keys output by token', () => {
+    const books = getToolSpec('clob_books')!.build({ tokens: ['111', '222', '111'] });
+    expect(books.argv).toEqual(['clob', 'books', '111,222']);
+    expect(books.guardArgs.token_count).toBe(2);
+    expect(books.transform!([
+      { asset_id: '222', bids: [], asks: [] },
+    ])).toEqual({
+      111: null,
+      222: { asset_id: '222', bids: [], asks: [] },
+    });
+
+    const prices = getToolSpec('clob_batch_prices')!.build({ tokens: ['111'], side: 'sell' });
+    expect(prices.argv).toEqual(['clob', 'batch-prices', '111', '--side', 'sell']);
+    expect(prices.transform!({ 111: { SELL: '0.42' } })).toEqual({ 111: { SELL: '0.42' } });
+  });
+
+  it('validates every token in batch requests', () => {
+    const tool = getToolSpec('clob_midpoints');
+    expect(() => tool!.build({ tokens: [] })).toThrow("Invalid 'tokens'");
+    expect(() => tool!.build({ tokens: ['1', ''] })).toThrow("Invalid 'tokens[1]'");
+    expect(() => tool!.build({ tokens: ['1,2'] })).toThrow("Invalid 'tokens[0]'");
+  });
+
+  it('classifies account reads separately from public data and mutations', () => {
+    for (const name of ['clob_orders', 'clob_order', 'clob_trades', 'clob_balance', 'clob_account_status']) {
+      const tool = getToolSpec(name);
+      expect(tool, name).toBeDefined();
+      expect(tool!.mutating).toBe(false);
+      expect(toolCategory(tool!)).toBe('authenticated_read');
+    }
+
+    expect(toolCategory(getToolSpec('clob_book')!)).toBe('public_read');
+    expect(toolCategory(getToolSpec('order_cancel')!)).toBe('mutating');
+  });
+
+  it('builds account read commands', () => {
+    expect(getToolSpec('clob_orders')!.build({ market: MARKET }).argv).toEqual([
+      'clob',
+      'orders',
+      '--market', MARKET,
+    ]);
+    expect(getToolSpec('clob_balance')!.build({}).argv).toEqual([
+      'clob',
+      'balance',
+      '--asset-type', 'collateral',
+    ]);
+    expect(getToolSpec('clob_balance')!.build({ assetType: 'conditional', token: '123' }).argv).toEqual([
+      'clob',
+      'balance',
+      '--asset-type', 'conditional',
+      '--token', '123',
+    ]);
+    expect(() => getToolSpec('clob_balance')!.build({ assetType: 'conditional' })).toThrow("Invalid 'token'");
+  });
+
+  it('builds data analytics commands with typed filters', () => {
+    expect(getToolSpec('data_leaderboard')!.build({ period: 'week', orderBy: 'pnl', limit: 10 }).argv).toEqual([
+      'data',
+      'leaderboard',
+      '--period', 'week',
+      '--order-by', 'pnl',
+      '--limit', '10',
+    ]);
+    expect(getToolSpec('data_holders')!.build({ market: MARKET, limit: 5 }).argv).toEqual([
+      'data',
+      'holders',
+      MARKET,
+      '--limit', '5',
+    ]);
+    expect(getToolSpec('data_volume')!.build({ event: 12345 }).argv).toEqual(['data', 'volume', '12345']);
+    expect(() => getToolSpec('data_leaderboard')!.build({ orderBy: 'profit' })).toThrow("Invalid 'orderBy'");
+  });
+
+  it('validates wallet addresses consistently', () => {
+    const address = '0x56687bf447db6ffa42ffe2204a05edaa20f55839';
+    for (const name of ['portfolio_positions', 'portfolio_closed_positions', 'portfolio_value', 'portfolio_traded', 'portfolio_activity']) {
+      const tool = getToolSpec(name);
+      expect(tool, name).toBeDefined();
+      expect(tool!.build({ address }).argv).toContain(address);
+      expect(() => tool!.build({ address: 'vitalik.eth' }), name).toThrow("Invalid 'address'");
+    }
+  });
+
+  it('accepts EIP-55 checksummed addresses and rejects a broken checksum', () => {
+    const tool = getToolSpec('profiles_get')!;
+    expect(tool.build({ address: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed' }).argv).toEqual([
+      'profiles', 'get', '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed',
+    ]);
+    expect(() => tool.build({ address: '0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD' })).toThrow('EIP-55');
+  });
+
+  it('restricts identifiers so they can never be read as flags', () => {
+    expect(() => getToolSpec('clob_book')!.build({ token: '--amount' })).toThrow("Invalid 'token': expected decimal token id");
+    expect(() => getToolSpec('clob_book')!.build({ token: '0x12' })).toThrow("Invalid 'token'");
+    expect(() => getToolSpec('markets_get')!.build({ market: '-o' })).toThrow("Invalid 'market'");
+    expect(() => getToolSpec('markets_get')!.build({ market: 'Will-BTC' })).toThrow("Invalid 'market'");
+    expect(() => getToolSpec('order_cancel')!.build({ orderId: '--all' })).toThrow("Invalid 'orderId'");
+    expect(() => getToolSpec('ctf_redeem')!.build({ condition: '123' })).toThrow("Invalid 'condition'");
+    expect(() => getToolSpec('events_list')!.build({ order: 'volume --closed' })).toThrow("Invalid 'order'");
+    expect(() => getToolSpec('clob_orders')!.build({ cursor: '--market' })).toThrow("Invalid 'cursor'");
+
+    expect(getToolSpec('markets_get')!.build({ market: 'will-btc-hit-100k' }).argv).toEqual([
+      'markets', 'get', 'will-btc-hit-100k',
+    ]);
+  });
+
+  it('passes free-text search queries after the end-of-options separator', () => {
+    expect(getToolSpec('markets_search')!.build({ query: '--amount 5', limit: 3 }).argv).toEqual([
+      'markets', 'search', '--limit', '3', '--', '--amount 5',
+    ]);
+    expect(() => getToolSpec('markets_search')!.build({ query: 'a\nb' })).toThrow("Invalid 'query'");
+  });
+
+  it('builds batch limit order with per-leg and aggregate notional', () => {
+    const tool = getToolSpec('order_batch_limit');
+    expect(tool).toBeDefined();
+
+    const built = tool!.build({
+      side: 'buy',
+      orderType: 'gtc',
+      legs: [
+        { token: '111', price: 0.4, size: 10 },
+        { token: '222', price: 0.25, size: 20 },
+      ],
+    });
+
+    expect(built.argv).toEqual([
+      'clob',
+      'post-orders',
+      '--tokens', '111,222',
+      '--side', 'buy',
+      '--prices', '0.4,0.25',
+      '--sizes', '10,20',
+      '--order-type', 'GTC',
+    ]);
+    expect(built.guardArgs.leg_count).toBe(2);
+    expect(built.guardArgs.amount_usd).toBe(9);
+    expect(built.guardArgs.orderType).toBe('GTC');
+    expect(built.guardArgs.legs).toEqual([
+      { token: '111', price: 0.4, size: 10, amount_usd: 4 },
+      { token: '222', price: 0.25, size: 20, amount_usd: 5 },
+    ]);
+  });
+
+  it('validates each batch leg like a single limit order', () => {
+    const tool = getToolSpec('order_batch_limit');
+
+    expect(() => tool!.build({ side: 'buy', legs: [] })).toThrow("Invalid 'legs'");
+    expect(() => tool!.build({
+      side: 'buy',
+      legs: [{ token: '111', price: 0.4, size: 10 }, { token: '222', price: 0, size: 5 }],
+    })).toThrow("Invalid 'legs[1].price'");
+    expect(() => tool!.build({
+      side: 'buy',
+      legs: [{ token: '111', price: 0.4, size: 10, side: 'sell' }],
+    })).toThrow("Unexpected argument 'legs[0].side'");
+  });
+
+  it('builds scoped cancel commands', () => {
+    const cancelOrders = getToolSpec('order_cancel_orders')!.build({ orderIds: [ORDER_A, ORDER_B, ORDER_A] });
+    expect(cancelOrders.argv).toEqual(['clob', 'cancel-orders', `${ORDER_A},${ORDER_B}`]);
+    expect(cancelOrders.guardArgs).toEqual({ orderIds: [ORDER_A, ORDER_B], order_count: 2 });
+
+    const cancelMarket = getToolSpec('order_cancel_market')!.build({ market: MARKET, asset: '123' });
+    expect(cancelMarket.argv).toEqual(['clob', 'cancel-market', '--market', MARKET, '--asset', '123']);
+    expect(cancelMarket.guardArgs).toEqual({ market: MARKET, asset: '123' });
+  });
+
+  it('refuses unscoped market cancellation', () => {
+    expect(() => getToolSpec('order_cancel_market')!.build({})).toThrow('order_cancel_all');
+  });
+
+  it('builds CTF identifier helpers as unredacted read-only tools', () => {
+    const condition = `0x${'ab'.repeat(32)}`;
+
+    const collection = getToolSpec('ctf_collection_id')!;
+    expect(collection.mutating).toBe(false);
+    expect(collection.redactOutput).toBe(false);
+    expect(collection.build({ condition, indexSet: 1 }).argv).toEqual([
+      'ctf',
+      'collection-id',
+      '--condition', condition,
+      '--index-set', '1',
+    ]);
+
+    expect(getToolSpec('ctf_condition_id')!.build({
+      oracle: '0x6A9D222616C90FcA5754cd1333cFD9b7fb6a4F74',
+      question: condition,
+      outcomes: 2,
+    }).argv).toEqual([
+      'ctf',
+      'condition-id',
+      '--oracle', '0x6A9D222616C90FcA5754cd1333cFD9b7fb6a4F74',
+      '--question', condition,
+      '--outcomes', '2',
+    ]);
+    expect(() => getToolSpec('ctf_position_id')!.build({ collection: '0x1234' })).toThrow("Invalid 'collection'");
+  });
+
+  it('builds neg-risk redemption with per-outcome amounts', () => {
+    const tool = getToolSpec('ctf_redeem_neg_risk')!;
+    expect(tool.mutating).toBe(true);
+
+    const built = tool.build({ condition: MARKET, amounts: [10, 0, 5.5] });
+    expect(built.argv).toEqual(['ctf', 'redeem-neg-risk', '--condition', MARKET, '--amounts', '10,0,5.5']);
+    expect(built.guardArgs.total_amount).toBe(15.5);
+    expect(() => tool.build({ condition: MARKET, amounts: [0] })).toThrow("Invalid 'amounts'");
+  });
+
+  it('builds bridge tools and marks deposit addresses as sensitive', () => {
+    const wallet = '0x56687bf447db6ffa42ffe2204a05edaa20f55839';
+
+    const deposit = getToolSpec('bridge_deposit_address')!;
+    expect(deposit.mutating).toBe(false);
+    expect(toolCategory(deposit)).toBe('sensitive_read');
+    expect(deposit.build({ address: wallet }).argv).toEqual(['bridge', 'deposit', wallet]);
+
+    expect(toolCategory(getToolSpec('bridge_status')!)).toBe('public_read');
+    expect(getToolSpec('bridge_status')!.build({ address: 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq' }).argv).toEqual([
+      'bridge',
+      'status',
+      'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq',
+    ]);
+    expect(() => getToolSpec('bridge_status')!.build({ address: '--help' })).toThrow("Invalid 'address'");
+    expect(getToolSpec('bridge_supported_assets')!.build({}).argv).toEqual(['bridge', 'supported-assets']);
+  });
+
+  it('builds comment lookups and validates the parent entity type', () => {
+    const tool = getToolSpec('comments_list')!;
+    const raw = tool.build({ entityType: 'Market', entityId: '12345', limit: 50, offset: 50 });
+    expect(raw.argv).toEqual([
+      'comments',
+      'list',
+      '--entity-type', 'market',
+      '--entity-id', '12345',
+      '--limit', '50',
+      '--offset', '50',
+    ]);
+    expect(raw.transform).toBeUndefined();
+
+    const summarized = tool.build({ entityType: 'event', entityId: '9', summarize: true, top: 1 });
+    const summary = summarized.transform!([
+      { id: 'a', body: 'hi', reactionCount: 1 },
+      { id: 'b', body: 'yo', reactionCount: 4 },
+    ]) as Record<string, unknown>;
+    expect(summary.count).toBe(2);
+    expect(summary.topLiked).toHaveLength(1);
+
+    expect(() => tool.build({ entityType: 'user', entityId: '1' })).toThrow("Invalid 'entityType'");
+    expect(() => tool.build({ entityId: '1' })).toThrow("Invalid 'entityType'");
+  });
+
+  it('builds profile lookup by wallet address', () => {
+    const address = '0x56687bf447db6ffa42ffe2204a05edaa20f55839';
+    expect(getToolSpec('profiles_get')!.build({ address }).argv).toEqual(['profiles', 'get', address]);
+    expect(getToolSpec('comments_by_user')!.build({ address, summarize: true }).transform).toBeDefined();
+  });
+
+  it('builds reward and scoring reads with validated dates and order ids', () => {
+    expect(getToolSpec('clob_rewards')!.build({ date: '2024-02-29', cursor: 'MTA=' }).argv).toEqual([
+      'clob',
+      'rewards',
+      '--date', '2024-02-29',
+      '--cursor', 'MTA=',
+    ]);
+    expect(getToolSpec('clob_earnings')!.build({ date: '2024-06-15' }).argv).toEqual([
+      'clob',
+      'earnings',
+      '--date', '2024-06-15',
+    ]);
+    expect(getToolSpec('clob_market_reward')!.build({ condition: `0x${'ab'.repeat(32)}` }).argv).toEqual([
+      'clob',
+      'market-reward',
+      `0x${'ab'.repeat(32)}`,
+    ]);
+
+    const scoring = getToolSpec('clob_orders_scoring')!.build({ orderIds: [ORDER_A, ORDER_B, ORDER_A] });
+    expect(scoring.argv).toEqual(['clob', 'orders-scoring', `${ORDER_A},${ORDER_B}`]);
+    expect(scoring.guardArgs.order_count).toBe(2);
+
+    expect(() => getToolSpec('clob_earnings')!.build({ date: '2024-02-30' })).toThrow("Invalid 'date'");
+    expect(() => getToolSpec('clob_rewards')!.build({ date: '06/15/2024' })).toThrow("Invalid 'date'");
+    expect(() => getToolSpec('clob_orders_scoring')!.build({ orderIds: ['a,b'] })).toThrow("Invalid 'orderIds[0]'");
+
+    for (const name of ['clob_rewards', 'clob_current_rewards', 'clob_orders_scoring', 'rewards_summary', 'clob_orders']) {
+      const tool = getToolSpec(name)!;
+      expect(toolCategory(tool), name).toBe('authenticated_read');
+      expect(tool.redactOutput, name).toBe(false);
+    }
+  });
+
+  it('declares closed schemas whose positive-only numbers exclude zero', () => {
+    for (const tool of listTools()) {
+      expect(tool.inputSchema.additionalProperties, tool.name).toBe(false);
+    }
+
+    const limit = getToolSpec('order_create_limit')!.inputSchema.properties!;
+    expect(limit.price).toEqual({ type: 'number', exclusiveMinimum: 0, exclusiveMaximum: 1 });
+    expect(limit.size).toEqual({ type: 'number', exclusiveMinimum: 0 });
+  });
+
+  it('rejects limit prices outside the (0, 1) probability range', () => {
+    const spec = getToolSpec('order_create_limit')!;
+    expect(() => spec.build({ token: '1', side: 'buy', price: 1.7, size: 10 })).toThrow(
+      "Invalid 'price': expected price between 0 and 1 (exclusive)",
+    );
+    expect(() => getToolSpec('order_batch_limit')!.build({ side: 'sell', legs: [{ token: '1', price: 1, size: 10 }] })).toThrow(
+      "Invalid 'legs[0].price'",
+    );
+  });
+
+  it('requires a token unless the runtime resolved one from market and outcome', () => {
+    const spec = getToolSpec('order_market')!;
+    expect(spec.resolveOutcome).toBe(true);
+    expect(() => spec.build({ market: 'london-rain', outcome: 'Yes', side: 'buy', amount: 5 })).toThrow(
+      "Invalid 'token': expected decimal token id, or 'market' with 'outcome'",
+    );
+    expect(spec.build({ token: '222', market: 'london-rain', outcome: 'No', side: 'buy', amount: 5 }).guardArgs).toMatchObject({
+      token: '222',
+      market: 'london-rain',
+      outcome: 'No',
+    });
+  });
+
+  it('quotes against the book for exactly one of amountUsd or size', () => {
+    const spec = getToolSpec('quote')!;
+    expect(() => spec.build({ token: '1', side: 'buy' })).toThrow("expected exactly one of 'amountUsd' or 'size'");
+    expect(() => spec.build({ token: '1', side: 'buy', amountUsd: 5, size: 5 })).toThrow("exactly one of 'amountUsd' or 'size'");
+
+    const built = spec.build({ token: '1', side: 'buy', amountUsd: 5 });
+    expect(built.argv).toEqual(['clob', 'book', '1']);
+    const quote = built.transform!({ bids: [{ price: '0.4', size: '10' }], asks: [{ price: '0.5', size: '100' }] }) as Record<string, unknown>;
+    expect(quote).toMatchObject({ token: '1', vwap: 0.5, filledSize: 10, midpoint: 0.45, slippage: 0.05 });
+  });
+
   it('does not expose wallet mutation tools', () => {
     const names = listTools().map((tool) => tool.name);
     expect(names).not.toContain('wallet_import');